@@ -0,0 +1,191 @@
+/*
+ * @Description: Cache admin middleware to inspect and purge entries
+ * @License: BSD (3-Clause)
+ * @Copyright (c): <richenlin(at)gmail.com>
+ */
+import { KoattyContext, KoattyMiddleware, KoattyNext } from "koatty_core";
+import { Helper } from "koatty_lib";
+import { DefaultLogger as logger } from "koatty_logger";
+import { hashCacheKey } from "./utils";
+import { decodeEnvelope, getEnvelopeValue } from "./envelope";
+import { decompressPayload } from "./compress";
+import { evictEntries, evictTags, isNameIndexed } from "./tags";
+import { invalidateLocal } from "./local";
+import { getScopedKey, getSerializer, getStore } from "./entry";
+import { CacheManager } from "./manager";
+import { CacheRegistryItem, GetCacheRegistry } from "./warmup";
+import { bumpNameVersion, bumpTagVersions, bumpVersions } from "./consistency";
+import { BumpCacheVersion } from "./version";
+
+/**
+ * Options of the cache admin middleware
+ *
+ * @export
+ * @interface CacheAdminOpt
+ */
+export interface CacheAdminOpt {
+  // path prefix of the admin routes, default "/_cache"
+  prefix?: string;
+  // guard of the admin routes, all requests are rejected with 403 when not set
+  auth?: (ctx: KoattyContext) => boolean | Promise<boolean>;
+}
+
+/**
+ * Inspect and purge the caches at runtime:
+ *
+ * GET    {prefix}/names                 cacheNames of the decorators with their options
+ * GET    {prefix}/entry?cacheName=user&params={"id":1}  key, value, ttl and size of the entry,
+ *        also selected by key=user:id:1, with the optional version, scope and store
+ * DELETE {prefix}/entry?...             purge the entry
+ * DELETE {prefix}/names/:cacheName      purge all entries of the cacheName
+ * DELETE {prefix}/tags/:tag             purge all entries with the tag
+ *
+ * @export
+ * @param {CacheAdminOpt} [opt]
+ * e.g:
+ * {
+ *  auth: (ctx) => ctx.get("x-admin-token") === process.env.CACHE_ADMIN_TOKEN
+ * }
+ * @returns {*}  {KoattyMiddleware}
+ */
+export function CacheAdmin(opt: CacheAdminOpt = {}): KoattyMiddleware {
+  const prefix = (opt.prefix || "/_cache").replace(/\/+$/, "");
+
+  return async (ctx: KoattyContext, next: KoattyNext) => {
+    if (ctx.path !== prefix && !ctx.path.startsWith(`${prefix}/`)) {
+      return next();
+    }
+    if (!opt.auth || !(await opt.auth(ctx))) {
+      ctx.status = 403;
+      ctx.body = { error: "Forbidden" };
+      return;
+    }
+    const route = ctx.path.slice(prefix.length);
+    try {
+      if (ctx.method === "GET" && route === "/names") {
+        ctx.body = GetCacheRegistry().map(formatRegistryItem);
+        return;
+      }
+      if (route === "/entry" && (ctx.method === "GET" || ctx.method === "DELETE")) {
+        return await handleEntry(ctx);
+      }
+      const purge = /^\/(names|tags)\/([^/]+)$/.exec(route);
+      if (ctx.method === "DELETE" && purge) {
+        return await handlePurge(ctx, purge[1], decodeURIComponent(purge[2]));
+      }
+      ctx.status = 404;
+      ctx.body = { error: "Not Found" };
+    } catch (e) {
+      logger.error("Cache admin error:" + e.message);
+      ctx.status = 500;
+      ctx.body = { error: e.message };
+    }
+  };
+}
+
+/**
+ * Options of a registered CacheAble method, without the class and the serializer
+ *
+ * @param {CacheRegistryItem} item
+ * @returns {*}  {Record<string, any>}
+ */
+function formatRegistryItem(item: CacheRegistryItem): Record<string, any> {
+  return {
+    cacheName: item.cacheName,
+    className: item.className,
+    methodName: item.methodName,
+    params: item.params,
+    version: item.version,
+    timeout: Helper.isFunction(item.timeout) ? "function" : item.timeout,
+    store: item.store,
+  };
+}
+
+/**
+ * Show or purge the entry selected by key, or by cacheName and params
+ *
+ * @param {KoattyContext} ctx
+ * @returns {*}  {Promise<void>}
+ */
+async function handleEntry(ctx: KoattyContext): Promise<void> {
+  const { key, cacheName, params, version, scope, store: storeName } = <Record<string, string>>ctx.query;
+  if (Helper.isEmpty(key) && Helper.isEmpty(cacheName)) {
+    ctx.status = 400;
+    ctx.body = { error: "cacheName or key is required" };
+    return;
+  }
+  let parsedParams: Record<string, any>;
+  try {
+    parsedParams = Helper.isEmpty(params) ? undefined : JSON.parse(params);
+  } catch {
+    ctx.status = 400;
+    ctx.body = { error: "params must be a JSON object" };
+    return;
+  }
+  const store = await getStore(storeName);
+  if (!store) {
+    ctx.status = 503;
+    ctx.body = { error: "Cache store is not available" };
+    return;
+  }
+  // the version of the decorators when not given
+  const item = GetCacheRegistry().find(i => i.cacheName === cacheName && (i.store || "") === (storeName || ""));
+  const rawKey = !Helper.isEmpty(key) ? key : await new CacheManager().getKey(cacheName, parsedParams, {
+    store: storeName,
+    version: !Helper.isEmpty(version) ? version : item && item.version,
+    scope,
+  });
+  const storeKey = hashCacheKey(rawKey);
+
+  if (ctx.method === "DELETE") {
+    // the CacheAble methods started before do not write their results in the consistency mode
+    await bumpVersions(store, cacheName, rawKey, []);
+    const deleted = await store.del(storeKey);
+    await invalidateLocal([getScopedKey(storeName, storeKey)]);
+    ctx.body = { key: rawKey, storeKey, deleted: deleted > 0 };
+    return;
+  }
+
+  const [data, ttl] = await Promise.all([store.get(storeKey), store.ttl(storeKey)]);
+  if (Helper.isEmpty(data)) {
+    ctx.body = { key: rawKey, storeKey, exists: false };
+    return;
+  }
+  const entry: Record<string, any> = { key: rawKey, storeKey, exists: true, ttl, size: Buffer.byteLength(data) };
+  try {
+    const envelope = decodeEnvelope(await decompressPayload(data), getSerializer({ serializer: item && item.serializer }));
+    entry.value = getEnvelopeValue(envelope);
+    entry.writtenAt = envelope.t;
+    entry.expireAt = envelope.e === Number.MAX_SAFE_INTEGER ? null : envelope.e;
+  } catch (e) {
+    entry.error = "Cannot decode the value: " + e.message;
+  }
+  ctx.body = entry;
+}
+
+/**
+ * Purge all entries of the cacheName or the tag.
+ * The entries of a cacheName without index are invalidated by BumpCacheVersion instead.
+ *
+ * @param {KoattyContext} ctx
+ * @param {string} type "names" or "tags"
+ * @param {string} name cacheName or tag
+ * @returns {*}  {Promise<void>}
+ */
+async function handlePurge(ctx: KoattyContext, type: string, name: string): Promise<void> {
+  const storeName = <string>ctx.query.store;
+  const store = await getStore(storeName);
+  if (!store) {
+    ctx.status = 503;
+    ctx.body = { error: "Cache store is not available" };
+    return;
+  }
+  if (type === "names" && !isNameIndexed(name)) {
+    ctx.body = { generation: await BumpCacheVersion(name, storeName) };
+    return;
+  }
+  await (type === "names" ? bumpNameVersion(store, name) : bumpTagVersions(store, [name]));
+  const keys = type === "names" ? await evictEntries(store, name) : await evictTags(store, [name]);
+  await invalidateLocal(keys.map(k => getScopedKey(storeName, hashCacheKey(k))));
+  ctx.body = { deleted: keys.length };
+}
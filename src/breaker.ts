@@ -0,0 +1,222 @@
+/*
+ * @Description: Operation timeout and circuit breaker around the cache store
+ * @License: BSD (3-Clause)
+ * @Copyright (c): <richenlin(at)gmail.com>
+ */
+import { DefaultLogger as logger } from "koatty_logger";
+import { CacheStore } from "koatty_store";
+import { getCacheConfig } from "./config";
+
+/**
+ * Options of the circuit breaker around the cache store operations
+ *
+ * @export
+ * @interface CircuitBreakerOpt
+ */
+export interface CircuitBreakerOpt {
+  // consecutive failures or timeouts to open the circuit, default 5
+  threshold?: number;
+  // time to skip the cache before probing again, milliseconds, default 30000
+  coolDown?: number;
+}
+
+/**
+ * Circuit breaker states
+ */
+export type CircuitState = "closed" | "open" | "half-open";
+
+// store methods not guarded by the timeout and the breaker
+const unguarded = new Set(["getConnection", "getRawClient", "close", "release"]);
+
+/**
+ * Circuit breaker of a cache store.
+ * Opens after threshold consecutive failures, lets a single probe through after the cool-down,
+ * and closes again when the probe succeeds.
+ *
+ * @export
+ * @class CircuitBreaker
+ */
+export class CircuitBreaker {
+  readonly name: string;
+  readonly threshold: number;
+  readonly coolDown: number;
+  private _state: CircuitState = "closed";
+  private failures = 0;
+  private openedAt = 0;
+  private probing = false;
+
+  constructor(name: string, opt: CircuitBreakerOpt = {}) {
+    this.name = name;
+    this.threshold = opt.threshold || 5;
+    this.coolDown = opt.coolDown || 30000;
+  }
+
+  get state(): CircuitState {
+    return this._state;
+  }
+
+  /**
+   * Whether the cache can be used, moves to half-open after the cool-down.
+   * In half-open the cache is skipped while the probe is in flight.
+   *
+   * @returns {*}  {boolean}
+   */
+  allow(): boolean {
+    if (this._state === "open" && Date.now() - this.openedAt >= this.coolDown) {
+      this.transition("half-open");
+    }
+    return this._state === "closed" || (this._state === "half-open" && !this.probing);
+  }
+
+  /**
+   * Claim a store operation, in half-open the first operation is the single probe.
+   * The probe is claimed by the operation rather than by allow(),
+   * so a caller that ends up without any store operation does not keep the breaker half-open.
+   *
+   * @returns {*}  {boolean}
+   */
+  claim(): boolean {
+    if (!this.allow()) {
+      return false;
+    }
+    if (this._state === "half-open") {
+      this.probing = true;
+    }
+    return true;
+  }
+
+  /**
+   * Record a successful operation
+   */
+  success() {
+    this.failures = 0;
+    this.probing = false;
+    if (this._state !== "closed") {
+      this.transition("closed");
+    }
+  }
+
+  /**
+   * Record a failed or timed out operation
+   */
+  failure() {
+    this.failures++;
+    this.probing = false;
+    if (this._state === "half-open" || (this._state === "closed" && this.failures >= this.threshold)) {
+      this.openedAt = Date.now();
+      this.transition("open");
+    }
+  }
+
+  private transition(state: CircuitState) {
+    const msg = `Cache circuit breaker of store "${this.name}" ${this._state} -> ${state}`;
+    if (state === "open") {
+      logger.Warn(msg);
+    } else {
+      logger.Info(msg);
+    }
+    this._state = state;
+  }
+}
+
+// circuit breakers by store name
+const breakers = new Map<string, CircuitBreaker>();
+
+/**
+ * Get the circuit breaker of the store, null when not enabled in KoattyCached options
+ *
+ * @export
+ * @param {string} name store name
+ * @returns {*}  {CircuitBreaker}
+ */
+export function getCircuitBreaker(name: string): CircuitBreaker {
+  const opt = getCacheConfig().circuitBreaker;
+  if (!opt) {
+    return null;
+  }
+  if (!breakers.has(name)) {
+    breakers.set(name, new CircuitBreaker(name, opt === true ? {} : opt));
+  }
+  return breakers.get(name);
+}
+
+/**
+ * Get the circuit breaker state of the store, "closed" when not enabled
+ *
+ * @export
+ * @param {string} [name] store name, default "default"
+ * @returns {*}  {CircuitState}
+ */
+export function GetCircuitState(name = "default"): CircuitState {
+  const breaker = breakers.get(name);
+  return breaker ? breaker.state : "closed";
+}
+
+/**
+ * Reset all circuit breakers
+ *
+ * @export
+ */
+export function resetCircuitBreakers() {
+  breakers.clear();
+}
+
+/**
+ * Wrap the store so that every operation is bounded by the operation timeout
+ * and reported to the circuit breaker. Returns the store itself when neither is enabled.
+ *
+ * @export
+ * @param {CacheStore} store
+ * @param {CircuitBreaker} breaker
+ * @returns {*}  {CacheStore}
+ */
+export function guardStore(store: CacheStore, breaker: CircuitBreaker): CacheStore {
+  const timeout = getCacheConfig().operationTimeout;
+  if (!breaker && !(timeout > 0)) {
+    return store;
+  }
+  return new Proxy(store, {
+    get(target: CacheStore, prop: string | symbol, receiver: any) {
+      const value = Reflect.get(target, prop, receiver);
+      if (typeof value !== "function" || typeof prop !== "string" || unguarded.has(prop)) {
+        return value;
+      }
+      return (...args: any[]) => {
+        if (breaker && !breaker.claim()) {
+          return Promise.reject(Error(`Cache circuit breaker of store "${breaker.name}" is ${breaker.state}`));
+        }
+        return withTimeout(Promise.resolve(value.apply(target, args)), timeout, prop)
+          .then((res: any) => {
+            if (breaker) {
+              breaker.success();
+            }
+            return res;
+          }, (e: Error) => {
+            if (breaker) {
+              breaker.failure();
+            }
+            throw e;
+          });
+      };
+    }
+  });
+}
+
+/**
+ * Reject when the promise is not settled in time
+ *
+ * @param {Promise<T>} promise
+ * @param {number} timeout milliseconds, 0 for none
+ * @param {string} op operation name
+ * @returns {*}  {Promise<T>}
+ */
+function withTimeout<T>(promise: Promise<T>, timeout: number, op: string): Promise<T> {
+  if (!(timeout > 0)) {
+    return promise;
+  }
+  let timer: NodeJS.Timeout;
+  const timeoutPromise = new Promise<T>((_, reject) => {
+    timer = setTimeout(() => reject(Error(`Cache operation ${op} timed out after ${timeout}ms`)), timeout);
+  });
+  return Promise.race([promise, timeoutPromise]).finally(() => clearTimeout(timer));
+}
@@ -0,0 +1,124 @@
+/*
+ * @Description: Invalidation bus of the in-process caches across nodes
+ * @License: BSD (3-Clause)
+ * @Copyright (c): <richenlin(at)gmail.com>
+ */
+import { EventEmitter } from "events";
+import { DefaultLogger as logger } from "koatty_logger";
+
+/**
+ * Invalidation message
+ *
+ * @export
+ * @interface CacheBusMessage
+ */
+export interface CacheBusMessage {
+  // id of the publishing node
+  source: string;
+  // store keys to drop from the local cache
+  keys?: string[];
+}
+
+/**
+ * Pub/sub channel to broadcast local cache invalidations between nodes
+ *
+ * @export
+ * @interface CacheBus
+ */
+export interface CacheBus {
+  publish(message: CacheBusMessage): Promise<void> | void;
+  subscribe(handler: (message: CacheBusMessage) => void): void;
+  close?(): Promise<void> | void;
+}
+
+/**
+ * In-process bus, nodes sharing the same instance receive each other's messages.
+ * Mainly for testing.
+ *
+ * @export
+ * @class MemoryCacheBus
+ * @implements {CacheBus}
+ */
+export class MemoryCacheBus implements CacheBus {
+  private emitter = new EventEmitter();
+
+  publish(message: CacheBusMessage) {
+    this.emitter.emit("message", message);
+  }
+
+  subscribe(handler: (message: CacheBusMessage) => void) {
+    this.emitter.on("message", handler);
+  }
+
+  close() {
+    this.emitter.removeAllListeners();
+  }
+}
+
+/**
+ * Minimal redis client used by RedisCacheBus, compatible with ioredis
+ */
+export interface RedisPubSubClient {
+  publish(channel: string, message: string): Promise<any>;
+  subscribe(channel: string): Promise<any>;
+  on(event: "message", listener: (channel: string, message: string) => void): any;
+  quit?(): Promise<any>;
+}
+
+/**
+ * Options of RedisCacheBus
+ *
+ * @export
+ * @interface RedisCacheBusOpt
+ */
+export interface RedisCacheBusOpt {
+  // client to publish messages
+  publisher: RedisPubSubClient;
+  // dedicated client in subscriber mode
+  subscriber: RedisPubSubClient;
+  // channel name, default "koatty_cacheable:invalidate"
+  channel?: string;
+}
+
+/**
+ * Bus over redis pub/sub
+ *
+ * @export
+ * @class RedisCacheBus
+ * @implements {CacheBus}
+ */
+export class RedisCacheBus implements CacheBus {
+  private opt: RedisCacheBusOpt;
+  private channel: string;
+
+  constructor(opt: RedisCacheBusOpt) {
+    this.opt = opt;
+    this.channel = opt.channel || "koatty_cacheable:invalidate";
+  }
+
+  async publish(message: CacheBusMessage) {
+    await this.opt.publisher.publish(this.channel, JSON.stringify(message));
+  }
+
+  subscribe(handler: (message: CacheBusMessage) => void) {
+    this.opt.subscriber.on("message", (channel: string, data: string) => {
+      if (channel !== this.channel) {
+        return;
+      }
+      try {
+        handler(JSON.parse(data));
+      } catch (e) {
+        logger.error("Cache bus message error:" + e.message);
+      }
+    });
+    this.opt.subscriber.subscribe(this.channel).catch((e: Error) => {
+      logger.error("Cache bus subscribe error:" + e.message);
+    });
+  }
+
+  async close() {
+    if (this.opt.subscriber.quit) {
+      await this.opt.subscriber.quit();
+    }
+  }
+}
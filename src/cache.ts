@@ -5,35 +5,145 @@
  * @Description:
  * @Copyright (c) - <richenlin(at)gmail.com>
  */
+import "reflect-metadata";
 import { IOCContainer } from 'koatty_container';
 import { Helper } from "koatty_lib";
 import { DefaultLogger as logger } from "koatty_logger";
 import { CacheStore } from "koatty_store";
-import { asyncDelayedExecution, generateCacheKey, getArgs, getParamIndex } from './utils';
-import { GetCacheStore } from './store';
+import {
+  buildCacheKey, buildParamsKey, delay, getArgs, getByPath, getParamIndex, hashCacheKey
+} from './utils';
+import { acquireLock, releaseLock, singleFlight } from './lock';
+import { CacheEnvelope, isNullResult, isStale, shouldRefreshAhead } from './envelope';
+import { CacheTag, indexCacheName, resolveTags } from './tags';
+import { invalidateLocal } from './local';
+import { CacheEvent, emitCacheEvent } from './metrics';
+import { getCompressOpt } from './compress';
+import { registerCacheAble } from './warmup';
+import { getKeyName } from './version';
+import { scheduleDeletion } from './deletion';
+import { CacheScopeResolver, getScopeKeyName, getScopeTag, resolveScope } from './scope';
+import { bumpVersions, readVersions, writeIfCurrent } from './consistency';
+import {
+  CacheResult, defaultEntryOpt, EntryOpt, evictEntry, getCacheValue, getCacheValues, getScopedKey, getStore, indexEntry,
+  setCacheValue
+} from './entry';
+
+/**
+ * A parameter in the cache key: the parameter name or index,
+ * optionally followed by a property path, such as "query.userId", 0 or "1.id"
+ */
+export type CacheParam = string | number;
+
+/**
+ * Custom cache key generator, returns the cache key before hashing.
+ * cacheName includes the namespace, version and generation when they are set.
+ */
+export type CacheKeyGenerator = (cacheName: string, args: any[], target: any, methodName: string) => string;
+
+/**
+ * Options of the cache decorators selecting the entries
+ *
+ * @export
+ * @interface CacheScopeOpt
+ */
+export interface CacheScopeOpt {
+  // version of the cached data, change it when the shape of the data changes
+  version?: string | number;
+  // resolve a key segment such as the tenant id from the request context. When it resolves to nothing,
+  // CacheAble and CacheAbleBatch bypass the cache, CachePut and CacheEvict evict the entry in every scope
+  scope?: CacheScopeResolver;
+  // tags of the entries, static strings or functions of the method arguments
+  tags?: CacheTag[];
+  // evaluated before lookup or execution, the cache is bypassed when it returns false
+  condition?: (args: any[]) => boolean;
+}
+
+/**
+ * Options of the cache decorators building the key from the method arguments
+ *
+ * @export
+ * @interface CacheKeyOpt
+ */
+export interface CacheKeyOpt extends CacheScopeOpt {
+  // parameter names or indexes, supports path expressions such as "query.userId" or "1.id",
+  // the parameters decorated with @CacheKey when not set
+  params?: CacheParam[];
+  // custom cache key generator, params is ignored when set
+  keyGenerator?: CacheKeyGenerator;
+}
 
 /**
  * @description: 
  * @return {*}
  */
-export interface CacheAbleOpt {
-  // parameter name array
-  params?: string[];
-  // cache validity period, seconds
-  timeout?: number;
+export interface CacheAbleOpt extends CacheKeyOpt, EntryOpt {
+  // coalesce concurrent cache misses of the same key into a single method call
+  singleFlight?: boolean | SingleFlightOpt;
+  // probabilistic early refresh (XFetch) before timeout, a number sets the beta factor, default 1
+  refreshAhead?: boolean | number;
+  // evaluated before write, the result is not cached when it returns true
+  unless?: (result: any, args: any[]) => boolean;
+  // required by async generator methods: buffer the items into an array and cache it,
+  // a number sets the max items, larger results are not cached, default 1000
+  bufferIterable?: boolean | number;
 }
 
 /**
  * @description: 
  * @return {*}
  */
-export interface CacheEvictOpt {
-  // parameter name array
-  params?: string[];
+export interface SingleFlightOpt {
+  // also lock across processes through the cache store
+  distributed?: boolean;
+  // distributed lock ttl in seconds, default 10
+  lockTtl?: number;
+  // max time to wait for another process holding the lock in milliseconds, default 5000
+  waitTimeout?: number;
+  // interval to poll the cache while waiting in milliseconds, default 50
+  waitInterval?: number;
+}
+
+/**
+ * @description: 
+ * @return {*}
+ */
+export interface CachePutOpt extends CacheKeyOpt, EntryOpt {
+  // evaluated before write, the result is not cached when it returns true
+  unless?: (result: any, args: any[]) => boolean;
+  // the part of the result to cache, a property path such as "data.user" or a function
+  pick?: string | ((result: any, args: any[]) => any);
+}
+
+/**
+ * @description: 
+ * @return {*}
+ */
+export interface CacheEvictOpt extends CacheKeyOpt, Pick<EntryOpt, "store"> {
   // enable the delayed double deletion strategy
   delayedDoubleDeletion?: boolean;
   // delay time for double deletion in milliseconds, default 5000
   delayTime?: number;
+  // evict all entries with these tags, static strings or functions of the method arguments
+  tags?: CacheTag[];
+  // evict all entries under the cacheName, or those whose key starts with the params when params is set
+  allEntries?: boolean;
+  // evict before the method is executed, so the entry is removed even if the method throws, default false
+  beforeInvocation?: boolean;
+}
+
+/**
+ * @description: 
+ * @return {*}
+ */
+export interface CacheAbleBatchOpt extends CacheScopeOpt, Omit<EntryOpt, "staleTtl"> {
+  // name or index of the parameter holding the id array, default the first parameter
+  param?: CacheParam;
+  // property path of the id in each result item, default "id"
+  idField?: string;
+  // parameter name in the per-item key, default idField, so that the entries are shared
+  // with @CacheAble(cacheName, { params: [keyParam] })
+  keyParam?: string;
 }
 
 /**
@@ -59,69 +169,121 @@ export function CacheAble(cacheName: string, opt: CacheAbleOpt = {
   timeout: 300,
 }): MethodDecorator {
   return (target: any, methodName: string, descriptor: PropertyDescriptor) => {
-    const componentType = IOCContainer.getType(target);
-    if (!["SERVICE", "COMPONENT"].includes(componentType)) {
-      throw Error("This decorator only used in the service、component class.");
-    }
+    checkComponentType(target);
 
-    const { value, configurable, enumerable } = descriptor;
-    const mergedOpt = { ...{ params: [], timeout: 300 }, ...opt };
-
-    // Get the parameter list of the method
-    const funcParams = getArgs((<any>target)[methodName]);
-    // Get the defined parameter location
-    const paramIndexes = getParamIndex(funcParams, mergedOpt.params || []);
-    
-    // Validate parameters
-    const invalidParams: string[] = [];
-    (mergedOpt.params || []).forEach((param, index) => {
-      if (paramIndexes[index] === -1) {
-        invalidParams.push(param);
-      }
-    });
-    if (invalidParams.length > 0) {
-      logger.Warn(`CacheAble: Parameter(s) [${invalidParams.join(", ")}] not found in method ${String(methodName)}. These parameters will be ignored.`);
+    const mergedOpt = { ...{ params: [], ...defaultEntryOpt }, ...opt };
+    getCompressOpt(mergedOpt.compress);
+    const kind = getMethodKind("CacheAble", target, methodName, descriptor.value);
+    if (kind === "asyncGenerator" && !mergedOpt.bufferIterable) {
+      throw Error(`CacheAble: set bufferIterable to cache the async generator method ${target.constructor.name}.${methodName}.`);
     }
-    
+    const { value: method, configurable, enumerable } = descriptor;
+    const maxItems = mergedOpt.bufferIterable === true ? 1000 : <number>mergedOpt.bufferIterable;
+    // async generators are cached as the array of their items
+    const value = kind === "asyncGenerator" ? bufferItems(method, maxItems) : method;
+    const notCacheable = warnNotCacheable("CacheAble", target, methodName);
+    const keyParams = getKeyParams("CacheAble", target, methodName, mergedOpt);
+    const getKey = getKeyBuilder(target, methodName, mergedOpt, keyParams);
+    indexScopedName(cacheName, mergedOpt.scope);
+    registerCacheAble({
+      target: target.constructor,
+      className: target.constructor.name,
+      methodName,
+      cacheName,
+      params: keyParams.names,
+      version: mergedOpt.version,
+      timeout: mergedOpt.timeout,
+      serializer: mergedOpt.serializer,
+      store: mergedOpt.store,
+    });
+
+    const flightOpt = getSingleFlightOpt(mergedOpt.singleFlight);
+
     descriptor = {
       configurable,
       enumerable,
       writable: true,
       async value(...props: any[]) {
-        const store: CacheStore = await GetCacheStore().catch((e: Error): null => {
-          logger.error("Get cache store instance failed." + e.message);
-          return null;
-        });
+        const scope = getScope(mergedOpt.scope);
+        if (scope === undefined || (mergedOpt.condition && !mergedOpt.condition(props))) {
+          // tslint:disable-next-line: no-invalid-this
+          return value.apply(this, props);
+        }
+        const store = await getStore(mergedOpt.store);
         if (store) {
-          const key = generateCacheKey(cacheName, paramIndexes, mergedOpt.params, props);
-          const res = await store.get(key).catch((e: Error) => {
-            logger.error("Cache get error:" + e.message);
-          });
-          if (!Helper.isEmpty(res)) {
-            try {
-              return JSON.parse(res as string);
-            } catch (e) {
-              const error = e as Error;
-              logger.error("Cache JSON parse error:" + error.message);
-              // 如果解析失败，删除损坏的缓存，重新执行方法
-              store.del(key).catch((err: Error) => {
-                logger.error("Cache del error after parse failure:" + err.message);
+          const keyName = await getKeyName(store, mergedOpt.store, cacheName, mergedOpt.version);
+          const rawKey = getKey(scope ? getScopeKeyName(keyName, scope) : keyName, props);
+          const key = hashCacheKey(rawKey);
+          const event: CacheEvent = { cacheName, key: rawKey };
+          // execute the method and write the result to the cache
+          const load = async (awaitWrite = false) => {
+            const tags = getEntryTags(mergedOpt.tags, props, scope);
+            // versions read before the method, a result computed across an eviction is not written
+            const guard = await readVersions(store, cacheName, rawKey, tags);
+            const start = Date.now();
+            // tslint:disable-next-line: no-invalid-this
+            const result = await value.apply(this, props);
+            if (mergedOpt.unless && mergedOpt.unless(result, props)) {
+              return result;
+            }
+            // the items of async generators above the limit are returned as a stream
+            if (isStreamResult(result)) {
+              notCacheable();
+              return result;
+            }
+            const duration = Date.now() - start;
+            const writing = writeIfCurrent(store, key, getScopedKey(mergedOpt.store, key), guard,
+              () => setCacheValue(store, key, result, mergedOpt, event, duration, props))
+              .then(ttl => ttl !== 0 ? indexEntry(store, event, tags, ttl) : undefined);
+            if (awaitWrite) {
+              await writing;
+            }
+            return result;
+          };
+
+          const read = () => getCacheValue(store, key, mergedOpt, event);
+          const start = Date.now();
+          const cached = await read();
+          emitCacheEvent(cached.hit ? "hit" : "miss", { ...event, duration: Date.now() - start });
+          if (cached.hit) {
+            if (needsRefresh(cached.envelope, mergedOpt)) {
+              // serve the cached value, refresh in background
+              singleFlight(getScopedKey(mergedOpt.store, key), () => load(true)).catch((e: Error) => {
+                logger.error("Cache background refresh error:" + e.message);
               });
             }
+            return cached.value;
           }
-          const result = await value.apply(this, props);
-          // async refresh store
-          store.set(key, Helper.isJSONObj(result) ? JSON.stringify(result) : result,
-            mergedOpt.timeout).catch((e: Error) => {
-              logger.error("Cache set error:" + e.message);
-            });
-          return result;
+          if (!flightOpt) {
+            return load();
+          }
+          return singleFlight(getScopedKey(mergedOpt.store, key), () => {
+            if (flightOpt.distributed) {
+              return loadWithLock(store, key, flightOpt, load, read);
+            }
+            // the flight ends after the write, so later callers hit the cache
+            return load(true);
+          });
         } else {
           // tslint:disable-next-line: no-invalid-this
           return value.apply(this, props);
         }
       }
     };
+    if (kind === "asyncGenerator") {
+      const cached = descriptor.value;
+      descriptor.value = async function* (...props: any[]) {
+        // tslint:disable-next-line: no-invalid-this
+        const result = await cached.apply(this, props);
+        if (result instanceof BufferedItems && !result.claim()) {
+          // the callers coalesced by singleFlight cannot share the remaining items
+          // tslint:disable-next-line: no-invalid-this
+          yield* method.apply(this, props);
+          return;
+        }
+        yield* result;
+      };
+    }
     return descriptor;
   };
 }
@@ -146,54 +308,66 @@ export function CacheEvict(cacheName: string, opt: CacheEvictOpt = {
   delayedDoubleDeletion: true,
 }) {
   return (target: any, methodName: string, descriptor: PropertyDescriptor) => {
-    const componentType = IOCContainer.getType(target);
-    if (!["SERVICE", "COMPONENT"].includes(componentType)) {
-      throw Error("This decorator only used in the service、component class.");
-    }
+    checkComponentType(target);
+    checkMethodKind("CacheEvict", target, methodName, descriptor.value);
     const { value, configurable, enumerable } = descriptor;
     opt = { ...{ delayedDoubleDeletion: true, }, ...opt }
-    // Get the parameter list of the method
-    const funcParams = getArgs((<any>target)[methodName]);
-    // Get the defined parameter location
-    const paramIndexes = getParamIndex(funcParams, opt.params || []);
-    
-    // Validate parameters
-    const invalidParams: string[] = [];
-    (opt.params || []).forEach((param, index) => {
-      if (paramIndexes[index] === -1) {
-        invalidParams.push(param);
-      }
-    });
-    if (invalidParams.length > 0) {
-      logger.Warn(`CacheEvict: Parameter(s) [${invalidParams.join(", ")}] not found in method ${String(methodName)}. These parameters will be ignored.`);
+    const getKey = getKeyBuilder(target, methodName, opt, getKeyParams("CacheEvict", target, methodName, opt));
+    if (opt.allEntries) {
+      // the entries written under the cacheName are recorded, to be evicted at once
+      indexCacheName(cacheName);
     }
+    indexScopedName(cacheName, opt.scope);
 
     descriptor = {
       configurable,
       enumerable,
       writable: true,
       async value(...props: any[]) {
-        const store: CacheStore = await GetCacheStore().catch((e: Error): null => {
-          logger.error("Get cache store instance failed." + e.message);
-          return null;
-        });
+        if (opt.condition && !opt.condition(props)) {
+          return value.apply(this, props);
+        }
+        const scope = getScope(opt.scope);
+        // outside of any scope, such as in a job updating the data of all tenants
+        const allScopes = scope === undefined;
+        const store = await getStore(opt.store);
 
         if (store) {
-          const key = generateCacheKey(cacheName, paramIndexes, opt.params || [], props);
-
-          const result = await value.apply(this, props);
-          store.del(key).catch((e: Error) => {
-            logger.error("Cache delete error:" + e.message);
-          });
+          const keyName = await getKeyName(store, opt.store, cacheName, opt.version);
+          // allEntries of a scoped evict only selects the entries of the scope
+          const rawKey = getKey(scope ? getScopeKeyName(keyName, scope) : keyName, props);
+          const tags = resolveTags(opt.tags, props);
+          const event: CacheEvent = { cacheName, key: rawKey };
+          const evict = () => evictEntry(store, opt.store, cacheName, keyName, rawKey, tags, opt.allEntries, allScopes);
+          const evictOnce = () => {
+            const start = Date.now();
+            return evict().then(() => {
+              emitCacheEvent("evict", { ...event, duration: Date.now() - start });
+            }, (e: Error) => {
+              logger.error("Cache delete error:" + e.message);
+              emitCacheEvent("error", { ...event, error: e });
+            });
+          };
+          const doubleDelete = () => {
+            if (opt.delayedDoubleDeletion) {
+              scheduleDeletion(store, {
+                storeName: opt.store, cacheName, keyName, rawKey, tags, allEntries: opt.allEntries, allScopes,
+              }, opt.delayTime || 5000);
+            }
+          };
 
-          if (opt.delayedDoubleDeletion) {
-            const delayTime = opt.delayTime || 5000;
-            asyncDelayedExecution(() => {
-              store.del(key).catch((e: Error) => {
-                logger.error("Cache double delete error:" + e.message);
-              });
-            }, delayTime);
+          if (opt.beforeInvocation) {
+            await evictOnce();
+            try {
+              return await value.apply(this, props);
+            } finally {
+              doubleDelete();
+            }
           }
+
+          const result = await value.apply(this, props);
+          evictOnce();
+          doubleDelete();
           return result;
         } else {
           // If store is not available, execute method directly
@@ -204,3 +378,585 @@ export function CacheEvict(cacheName: string, opt: CacheEvictOpt = {
     return descriptor;
   }
 }
+
+/**
+ * Decorating the execution of this method will always execute it and write the result to the cache,
+ * the cache entry can then be read by CacheAble with the same cacheName and params.
+ * CacheStore server config defined in db.ts.
+ *
+ * @export
+ * @param {string} cacheName cache name
+ * @param {CachePutOpt} [opt] cache options
+ * e.g:
+ * {
+ *  params: ["id"],
+ *  timeout: 30,
+ *  pick: "data"
+ * }
+ * Use the 'id' parameters of the method as cache subkeys,
+ *  and cache the 'data' property of the result for 30s
+ * @returns {MethodDecorator}
+ */
+export function CachePut(cacheName: string, opt: CachePutOpt = {
+  params: [],
+  timeout: 300,
+}): MethodDecorator {
+  return (target: any, methodName: string, descriptor: PropertyDescriptor) => {
+    checkComponentType(target);
+
+    checkMethodKind("CachePut", target, methodName, descriptor.value);
+    const { value, configurable, enumerable } = descriptor;
+    const mergedOpt = { ...{ params: [], ...defaultEntryOpt }, ...opt };
+    getCompressOpt(mergedOpt.compress);
+    const notCacheable = warnNotCacheable("CachePut", target, methodName);
+    const getKey = getKeyBuilder(target, methodName, mergedOpt, getKeyParams("CachePut", target, methodName, mergedOpt));
+    indexScopedName(cacheName, mergedOpt.scope);
+    let warnedScope = false;
+
+    descriptor = {
+      configurable,
+      enumerable,
+      writable: true,
+      async value(...props: any[]) {
+        if (mergedOpt.condition && !mergedOpt.condition(props)) {
+          // tslint:disable-next-line: no-invalid-this
+          return value.apply(this, props);
+        }
+        const scope = getScope(mergedOpt.scope);
+        const store = await getStore(mergedOpt.store);
+        // tslint:disable-next-line: no-invalid-this
+        const result = await value.apply(this, props);
+        if (scope === undefined) {
+          // the scope of the result is not known, the entry is evicted in every scope instead
+          if (!warnedScope) {
+            warnedScope = true;
+            logger.Warn(`CachePut: the scope of ${target.constructor.name}.${methodName} cannot be resolved, ` +
+              `the entries of ${cacheName} are evicted in every scope instead of written.`);
+          }
+          if (store) {
+            const keyName = await getKeyName(store, mergedOpt.store, cacheName, mergedOpt.version);
+            const rawKey = getKey(keyName, props);
+            await evictEntry(store, mergedOpt.store, cacheName, keyName, rawKey, [], false, true).catch((e: Error) => {
+              logger.error("Cache delete error:" + e.message);
+              emitCacheEvent("error", { cacheName, key: rawKey, error: e });
+            });
+          }
+        } else if (isStreamResult(result)) {
+          notCacheable();
+        } else if (store && !(mergedOpt.unless && mergedOpt.unless(result, props))) {
+          const keyName = await getKeyName(store, mergedOpt.store, cacheName, mergedOpt.version);
+          const rawKey = getKey(scope ? getScopeKeyName(keyName, scope) : keyName, props);
+          let cacheValue = result;
+          if (Helper.isFunction(mergedOpt.pick)) {
+            cacheValue = mergedOpt.pick(result, props);
+          } else if (!Helper.isEmpty(mergedOpt.pick)) {
+            cacheValue = getByPath(result, <string>mergedOpt.pick);
+          }
+          const key = hashCacheKey(rawKey);
+          const event: CacheEvent = { cacheName, key: rawKey };
+          // the CacheAble methods started before do not overwrite the new value in the consistency mode
+          await bumpVersions(store, cacheName, rawKey, []);
+          // drop the copies in the local cache of other nodes
+          await invalidateLocal([getScopedKey(mergedOpt.store, key)]);
+          const ttl = await setCacheValue(store, key, cacheValue, mergedOpt, event, undefined, props);
+          if (ttl !== 0) {
+            await indexEntry(store, event, getEntryTags(mergedOpt.tags, props, scope), ttl);
+          }
+        }
+        return result;
+      }
+    };
+    return descriptor;
+  };
+}
+
+/**
+ * Decorate a method taking an array of ids and returning the list of their items.
+ * The ids are fanned out into per-item cache entries read with a single multi-get,
+ * the method is only called with the missing ids, and the items are returned in the order of the ids.
+ * Ids without result are left out of the returned list.
+ * CacheStore server config defined in db.ts.
+ *
+ * @export
+ * @param {string} cacheName cache name
+ * @param {CacheAbleBatchOpt} [opt] cache options
+ * e.g:
+ * {
+ *  param: "ids",
+ *  idField: "id",
+ *  timeout: 30
+ * }
+ * Cache each item of getUsersByIds(ids) as 'cacheName:id:{id}' for 30s
+ * @returns {MethodDecorator}
+ */
+export function CacheAbleBatch(cacheName: string, opt: CacheAbleBatchOpt = {}): MethodDecorator {
+  return (target: any, methodName: string, descriptor: PropertyDescriptor) => {
+    checkComponentType(target);
+
+    checkMethodKind("CacheAbleBatch", target, methodName, descriptor.value);
+    const { value, configurable, enumerable } = descriptor;
+    const mergedOpt = { ...{ idField: "id", ...defaultEntryOpt }, ...opt };
+    getCompressOpt(mergedOpt.compress);
+    const keyParam = mergedOpt.keyParam || mergedOpt.idField;
+    const paramIndex = Helper.isEmpty(mergedOpt.param) ? 0 :
+      getParamIndexes("CacheAbleBatch", target, methodName, [mergedOpt.param])[0];
+    indexScopedName(cacheName, mergedOpt.scope);
+
+    descriptor = {
+      configurable,
+      enumerable,
+      writable: true,
+      async value(...props: any[]) {
+        const ids = props[paramIndex];
+        const scope = getScope(mergedOpt.scope);
+        if (!Array.isArray(ids) || ids.length === 0 || scope === undefined ||
+          (mergedOpt.condition && !mergedOpt.condition(props))) {
+          // tslint:disable-next-line: no-invalid-this
+          return value.apply(this, props);
+        }
+        const store = await getStore(mergedOpt.store);
+        if (!store) {
+          // tslint:disable-next-line: no-invalid-this
+          return value.apply(this, props);
+        }
+
+        let keyName = await getKeyName(store, mergedOpt.store, cacheName, mergedOpt.version);
+        if (scope) {
+          keyName = getScopeKeyName(keyName, scope);
+        }
+        const getKey = (id: any) => buildParamsKey(keyName, { [keyParam]: id });
+        // unique ids by cache key
+        const entries = new Map<string, { id: any; result?: CacheResult }>();
+        ids.forEach(id => {
+          const rawKey = getKey(id);
+          if (!entries.has(rawKey)) {
+            entries.set(rawKey, { id });
+          }
+        });
+        const rawKeys = Array.from(entries.keys());
+        const events: CacheEvent[] = rawKeys.map(rawKey => ({ cacheName, key: rawKey }));
+        const start = Date.now();
+        const results = await getCacheValues(store, rawKeys.map(hashCacheKey), mergedOpt, events);
+        const duration = Date.now() - start;
+        rawKeys.forEach((rawKey, i) => {
+          // stale entries written by CacheAble with staleTtl are reloaded
+          const hit = results[i].hit && !isStale(results[i].envelope);
+          entries.get(rawKey).result = hit ? results[i] : undefined;
+          emitCacheEvent(hit ? "hit" : "miss", { ...events[i], duration });
+        });
+
+        const missing = rawKeys.filter(rawKey => !entries.get(rawKey).result);
+        if (missing.length > 0) {
+          const args = [...props];
+          args[paramIndex] = missing.map(rawKey => entries.get(rawKey).id);
+          const tags = getEntryTags(mergedOpt.tags, props, scope);
+          // versions read before the method, the items computed across an eviction are not written
+          const guards = await Promise.all(missing.map(rawKey => readVersions(store, cacheName, rawKey, tags)));
+          const computeStart = Date.now();
+          // tslint:disable-next-line: no-invalid-this
+          const items = await value.apply(this, args);
+          const computeTime = Date.now() - computeStart;
+          const found = new Map<string, any>();
+          (Array.isArray(items) ? items : []).forEach((item: any) => {
+            if (!isNullResult(item)) {
+              found.set(getKey(getByPath(item, mergedOpt.idField)), item);
+            }
+          });
+          missing.forEach((rawKey, i) => {
+            const item = found.get(rawKey);
+            entries.get(rawKey).result = { hit: item !== undefined, value: item };
+            const key = hashCacheKey(rawKey);
+            const event: CacheEvent = { cacheName, key: rawKey };
+            writeIfCurrent(store, key, getScopedKey(mergedOpt.store, key), guards[i],
+              () => setCacheValue(store, key, item, mergedOpt, event, computeTime, props))
+              .then(ttl => ttl !== 0 ? indexEntry(store, event, tags, ttl) : undefined);
+          });
+        }
+
+        const list: any[] = [];
+        ids.forEach(id => {
+          const result = entries.get(getKey(id)).result;
+          if (!isNullResult(result.value)) {
+            list.push(result.value);
+          }
+        });
+        return list;
+      }
+    };
+    return descriptor;
+  };
+}
+
+/**
+ * A parameter decorated with @CacheKey
+ */
+interface CacheKeyParam {
+  index: number;
+  name: string;
+}
+
+// metadata key of the @CacheKey parameters
+const CACHE_KEY_METADATA = "koatty_cacheable:cache_key";
+
+/**
+ * Use the decorated parameter in the cache key of the CacheAble, CachePut and CacheEvict of the method,
+ * when their params option is not set. Positions are recorded at decoration, so they do not
+ * depend on the method source, which may be minified.
+ *
+ * @export
+ * @param {string} [name] name in the cache key, followed by a property path such as "query.userId"
+ * to use a property of the parameter, default the parameter index
+ * e.g:
+ * async getUser(@CacheKey("id") id: string, @CacheKey("query.tenantId") query: Query)
+ * @returns {ParameterDecorator}
+ */
+export function CacheKey(name?: string): ParameterDecorator {
+  return (target: any, methodName: string, index: number) => {
+    const keys: CacheKeyParam[] = Reflect.getMetadata(CACHE_KEY_METADATA, target, methodName) || [];
+    const keyName = Helper.isEmpty(name) ? String(index) : name;
+    Reflect.defineMetadata(CACHE_KEY_METADATA, [...keys, { index, name: keyName }].sort((a, b) => a.index - b.index),
+      target, methodName);
+  };
+}
+
+/**
+ * Check that the decorated class is a service or component
+ *
+ * @param {*} target
+ */
+function checkComponentType(target: any) {
+  const componentType = IOCContainer.getType(target);
+  if (!["SERVICE", "COMPONENT"].includes(componentType)) {
+    throw Error("This decorator only used in the service、component class.");
+  }
+}
+
+/**
+ * Kind of the decorated method
+ */
+type MethodKind = "async" | "asyncGenerator";
+
+/**
+ * Get the kind of the decorated method. The cache store is asynchronous, so methods neither
+ * declared async nor annotated with a Promise return type fail at decoration,
+ * instead of silently returning a Promise to synchronous callers.
+ *
+ * @param {string} decorator decorator name
+ * @param {*} target
+ * @param {string} methodName
+ * @param {*} method
+ * @returns {*}  {MethodKind}
+ */
+function getMethodKind(decorator: string, target: any, methodName: string, method: any): MethodKind {
+  const name = method && method.constructor ? method.constructor.name : "";
+  if (name === "AsyncGeneratorFunction") {
+    return "asyncGenerator";
+  }
+  if (name === "AsyncFunction" || Reflect.getMetadata("design:returntype", target, methodName) === Promise) {
+    return "async";
+  }
+  throw Error(`${decorator} only supports async methods, declare ${target.constructor.name}.${methodName} ` +
+    `async or annotate its return type as Promise.`);
+}
+
+/**
+ * Check that the decorated method is an async method
+ *
+ * @param {string} decorator decorator name
+ * @param {*} target
+ * @param {string} methodName
+ * @param {*} method
+ */
+function checkMethodKind(decorator: string, target: any, methodName: string, method: any) {
+  if (getMethodKind(decorator, target, methodName, method) !== "async") {
+    throw Error(`${decorator} does not support the async generator method ${target.constructor.name}.${methodName}.`);
+  }
+}
+
+/**
+ * The items of an async generator above the bufferIterable limit:
+ * the buffered items followed by the remaining items read from the generator, which are not cached
+ */
+class BufferedItems implements AsyncIterable<any> {
+  private claimed = false;
+
+  constructor(private readonly items: any[], private readonly generator: AsyncGenerator<any>) { }
+
+  /**
+   * Take the items, false when another caller took them
+   *
+   * @returns {*}  {boolean}
+   */
+  claim(): boolean {
+    const claimed = this.claimed;
+    this.claimed = true;
+    return !claimed;
+  }
+
+  async *[Symbol.asyncIterator]() {
+    yield* this.items;
+    yield* this.generator;
+  }
+}
+
+/**
+ * Wrap the async generator method into an async method returning the array of its items.
+ * Buffering stops after maxItems + 1 items, the result is then a BufferedItems,
+ * so that a large or endless generator is not read into memory.
+ *
+ * @param {(...args: any[]) => AsyncGenerator<any>} method
+ * @param {number} maxItems
+ * @returns {*}  {(...args: any[]) => Promise<any[] | BufferedItems>}
+ */
+function bufferItems(method: (...args: any[]) => AsyncGenerator<any>,
+  maxItems: number): (...args: any[]) => Promise<any[] | BufferedItems> {
+  return async function (...args: any[]) {
+    const items: any[] = [];
+    // tslint:disable-next-line: no-invalid-this
+    const generator = method.apply(this, args);
+    while (items.length <= maxItems) {
+      const next = await generator.next();
+      if (next.done) {
+        return items;
+      }
+      items.push(next.value);
+    }
+    return new BufferedItems(items, generator);
+  };
+}
+
+/**
+ * Whether the result is a stream or an async iterable, which cannot be cached
+ *
+ * @param {*} result
+ * @returns {*}  {boolean}
+ */
+function isStreamResult(result: any): boolean {
+  // typeof, as Helper.isFunction does not accept async generator methods
+  return !!result && typeof result === "object" &&
+    (typeof result[Symbol.asyncIterator] === "function" || typeof result.pipe === "function");
+}
+
+/**
+ * Create the function warning, once per method, that a result was not cached
+ *
+ * @param {string} decorator decorator name
+ * @param {*} target
+ * @param {string} methodName
+ * @returns {*}  {() => void}
+ */
+function warnNotCacheable(decorator: string, target: any, methodName: string): () => void {
+  let warned = false;
+  return () => {
+    if (!warned) {
+      warned = true;
+      logger.Warn(`${decorator}: the result of ${target.constructor.name}.${methodName} is a stream, ` +
+        `an async iterable or above the bufferIterable limit, and is not cached.`);
+    }
+  };
+}
+
+/**
+ * Get the indexes of the params in the method arguments.
+ * Names are looked up in the parameter list parsed from the method source,
+ * indexes are checked against the parameter types when emitted.
+ * Decoration fails when a param cannot be resolved, instead of sharing a key between different arguments,
+ * and when a name follows a parameter that cannot be parsed, as its position is not reliable.
+ *
+ * @param {string} decorator decorator name
+ * @param {*} target
+ * @param {string} methodName
+ * @param {CacheParam[]} params
+ * @returns {*}  {number[]}
+ */
+function getParamIndexes(decorator: string, target: any, methodName: string, params: CacheParam[]): number[] {
+  // Get the parameter list of the method
+  const funcParams = getArgs((<any>target)[methodName]);
+  const paramTypes: any[] = Reflect.getMetadata("design:paramtypes", target, methodName);
+  // Get the defined parameter location
+  const paramIndexes = getParamIndex(funcParams, params).map(index =>
+    paramTypes && index >= paramTypes.length ? -1 : index);
+
+  // Validate parameters
+  const invalidParams = params.filter((_, index) => paramIndexes[index] === -1);
+  if (invalidParams.length > 0) {
+    throw Error(`${decorator}: Parameter(s) [${invalidParams.join(", ")}] not found in method ${String(methodName)}, ` +
+      `use parameter indexes such as params: [0, "1.id"] or @CacheKey() instead.`);
+  }
+  const parsed = !paramTypes || funcParams.length === paramTypes.length;
+  const unreliableParams = params.filter((param, index) => !/^\d+$/.test(String(param).split(".")[0]) &&
+    (!parsed || funcParams.slice(0, paramIndexes[index]).includes("")));
+  if (unreliableParams.length > 0) {
+    throw Error(`${decorator}: Parameter(s) [${unreliableParams.join(", ")}] cannot be resolved by name in method ` +
+      `${String(methodName)}, as its parameter list cannot be parsed, ` +
+      `use parameter indexes such as params: [0, "1.id"] or @CacheKey() instead.`);
+  }
+  return paramIndexes;
+}
+
+/**
+ * Parameters in the cache key
+ */
+interface KeyParams {
+  // indexes in the method arguments
+  indexes: number[];
+  // names in the cache key
+  names: string[];
+}
+
+/**
+ * Resolve the parameters in the cache key: the params option, or the parameters decorated with @CacheKey
+ *
+ * @param {string} decorator decorator name
+ * @param {*} target
+ * @param {string} methodName
+ * @param {{ params?: CacheParam[]; keyGenerator?: CacheKeyGenerator }} opt
+ * @returns {*}  {KeyParams}
+ */
+function getKeyParams(decorator: string, target: any, methodName: string,
+  opt: { params?: CacheParam[]; keyGenerator?: CacheKeyGenerator }): KeyParams {
+  if (opt.keyGenerator) {
+    return { indexes: [], names: [] };
+  }
+  if (Helper.isEmpty(opt.params)) {
+    const keys: CacheKeyParam[] = Reflect.getMetadata(CACHE_KEY_METADATA, target, methodName) || [];
+    return { indexes: keys.map(k => k.index), names: keys.map(k => k.name) };
+  }
+  return {
+    indexes: getParamIndexes(decorator, target, methodName, opt.params),
+    names: opt.params.map(String),
+  };
+}
+
+/**
+ * Create the function building the readable cache key from the key name and the method arguments
+ *
+ * @param {*} target
+ * @param {string} methodName
+ * @param {{ keyGenerator?: CacheKeyGenerator }} opt
+ * @param {KeyParams} keyParams
+ * @returns {*}  {(keyName: string, props: any[]) => string}
+ */
+function getKeyBuilder(target: any, methodName: string, opt: { keyGenerator?: CacheKeyGenerator },
+  keyParams: KeyParams): (keyName: string, props: any[]) => string {
+  if (opt.keyGenerator) {
+    return (keyName: string, props: any[]) => opt.keyGenerator(keyName, props, target, methodName);
+  }
+  return (keyName: string, props: any[]) => buildCacheKey(keyName, keyParams.indexes, keyParams.names, props);
+}
+
+/**
+ * Resolve the scope of the decorator, null when the decorator is not scoped,
+ * undefined when the scope cannot be resolved from the current context
+ *
+ * @param {CacheScopeResolver} [resolver]
+ * @returns {*}  {string}
+ */
+function getScope(resolver?: CacheScopeResolver): string {
+  return resolver ? resolveScope(resolver) : null;
+}
+
+/**
+ * Record the entries of a scoped cacheName in the cacheName index,
+ * so that the evictions running outside of any scope find them in every scope
+ *
+ * @param {string} cacheName
+ * @param {CacheScopeResolver} [resolver]
+ */
+function indexScopedName(cacheName: string, resolver?: CacheScopeResolver) {
+  if (resolver) {
+    indexCacheName(cacheName);
+  }
+}
+
+/**
+ * Resolve the tags of the entry, scoped entries are also tagged with their scope
+ *
+ * @param {CacheTag[]} tags
+ * @param {any[]} props
+ * @param {string} scope
+ * @returns {*}  {string[]}
+ */
+function getEntryTags(tags: CacheTag[], props: any[], scope: string): string[] {
+  const resolved = resolveTags(tags, props);
+  return scope ? [...resolved, getScopeTag(scope)] : resolved;
+}
+
+/**
+ * Whether the cached entry should be refreshed in background
+ *
+ * @param {CacheEnvelope} envelope
+ * @param {CacheAbleOpt} opt
+ * @returns {*}  {boolean}
+ */
+function needsRefresh(envelope: CacheEnvelope, opt: CacheAbleOpt): boolean {
+  if (isStale(envelope)) {
+    return true;
+  }
+  if (opt.refreshAhead) {
+    return shouldRefreshAhead(envelope, opt.refreshAhead === true ? 1 : opt.refreshAhead);
+  }
+  return false;
+}
+
+/**
+ * Normalize the singleFlight option
+ *
+ * @param {(boolean | SingleFlightOpt)} [opt]
+ * @returns {*}  {SingleFlightOpt}
+ */
+function getSingleFlightOpt(opt?: boolean | SingleFlightOpt): SingleFlightOpt {
+  if (!opt) {
+    return null;
+  }
+  return {
+    ...{ distributed: false, lockTtl: 10, waitTimeout: 5000, waitInterval: 50 },
+    ...(opt === true ? {} : opt),
+  };
+}
+
+/**
+ * Execute the loader while holding a distributed lock on the key.
+ * Processes that fail to get the lock wait for the holder to fill the cache,
+ * and execute the loader themselves when the lock is released or the wait times out.
+ *
+ * @param {CacheStore} store
+ * @param {string} key
+ * @param {SingleFlightOpt} opt
+ * @param {(awaitWrite?: boolean) => Promise<any>} load
+ * @param {() => Promise<CacheResult>} read
+ * @returns {*}  {Promise<any>}
+ */
+async function loadWithLock(store: CacheStore, key: string, opt: SingleFlightOpt,
+  load: (awaitWrite?: boolean) => Promise<any>, read: () => Promise<CacheResult>): Promise<any> {
+  const lockKey = `${key}:lock`;
+  const locked = await acquireLock(store, lockKey, opt.lockTtl).catch((e: Error): boolean => {
+    logger.error("Cache lock error:" + e.message);
+    return null;
+  });
+  if (locked === false) {
+    const deadline = Date.now() + opt.waitTimeout;
+    while (Date.now() < deadline) {
+      await delay(opt.waitInterval);
+      const cached = await read();
+      if (cached.hit) {
+        return cached.value;
+      }
+      const held = await store.exists(lockKey).catch((): number => 0);
+      if (!held) {
+        break;
+      }
+    }
+    return load();
+  }
+
+  try {
+    return await load(true);
+  } finally {
+    if (locked) {
+      await releaseLock(store, lockKey).catch((e: Error) => {
+        logger.error("Cache unlock error:" + e.message);
+      });
+    }
+  }
+}
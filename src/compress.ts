@@ -0,0 +1,92 @@
+/*
+ * @Description: Payload compression of the cached values
+ * @License: BSD (3-Clause)
+ * @Copyright (c): <richenlin(at)gmail.com>
+ */
+import { promisify } from "util";
+import * as zlib from "zlib";
+
+/**
+ * Compression algorithms
+ */
+export type CompressAlgorithm = "gzip" | "brotli";
+
+/**
+ * Options of the payload compression
+ *
+ * @export
+ * @interface CompressOpt
+ */
+export interface CompressOpt {
+  // compression algorithm, default "gzip"
+  algorithm?: CompressAlgorithm;
+  // only compress payloads larger than this, bytes, default 1024
+  threshold?: number;
+}
+
+// marker of the compressed payloads, followed by the algorithm and the base64 data
+const PREFIX = "$kcz:";
+
+const codecs: Record<CompressAlgorithm, {
+  compress: (buf: Buffer) => Promise<Buffer>;
+  decompress: (buf: Buffer) => Promise<Buffer>;
+}> = {
+  gzip: { compress: promisify(zlib.gzip), decompress: promisify(zlib.gunzip) },
+  brotli: { compress: promisify(zlib.brotliCompress), decompress: promisify(zlib.brotliDecompress) },
+};
+
+/**
+ * Normalize the compress option, null when compression is disabled.
+ * Throws on an unknown algorithm, called at decoration to fail early.
+ *
+ * @export
+ * @param {(boolean | CompressAlgorithm | CompressOpt)} [opt]
+ * @returns {*}  {CompressOpt}
+ */
+export function getCompressOpt(opt?: boolean | CompressAlgorithm | CompressOpt): CompressOpt {
+  if (!opt) {
+    return null;
+  }
+  const res: CompressOpt = opt === true ? {} : typeof opt === "string" ? { algorithm: opt } : opt;
+  const merged: CompressOpt = { ...{ algorithm: "gzip", threshold: 1024 }, ...res };
+  if (!Object.prototype.hasOwnProperty.call(codecs, merged.algorithm)) {
+    throw Error(`Unknown cache compression: ${merged.algorithm}, supported: ${Object.keys(codecs).join(", ")}`);
+  }
+  return merged;
+}
+
+/**
+ * Compress the payload when it is larger than the threshold and compression makes it smaller
+ *
+ * @export
+ * @param {string} data serialized payload
+ * @param {CompressOpt} opt
+ * @returns {*}  {Promise<string>}
+ */
+export async function compressPayload(data: string, opt: CompressOpt): Promise<string> {
+  const codec = opt && codecs[opt.algorithm];
+  if (!codec || Buffer.byteLength(data) <= opt.threshold) {
+    return data;
+  }
+  const compressed = `${PREFIX}${opt.algorithm}:${(await codec.compress(Buffer.from(data))).toString("base64")}`;
+  return compressed.length < data.length ? compressed : data;
+}
+
+/**
+ * Decompress the payload if it is compressed, other payloads are returned as is
+ *
+ * @export
+ * @param {string} data stored payload
+ * @returns {*}  {Promise<string>}
+ */
+export async function decompressPayload(data: string): Promise<string> {
+  if (!data.startsWith(PREFIX)) {
+    return data;
+  }
+  const sep = data.indexOf(":", PREFIX.length);
+  const algorithm = data.slice(PREFIX.length, sep);
+  if (sep < 0 || !Object.prototype.hasOwnProperty.call(codecs, algorithm)) {
+    throw Error(`Unknown cache compression: ${algorithm}`);
+  }
+  return (await codecs[<CompressAlgorithm>algorithm].decompress(Buffer.from(data.slice(sep + 1), "base64"))).toString();
+}
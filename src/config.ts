@@ -0,0 +1,67 @@
+/*
+ * @Description: Global options of the cache decorators
+ * @License: BSD (3-Clause)
+ * @Copyright (c): <richenlin(at)gmail.com>
+ */
+import { Serializer } from "./serializer";
+import { LocalCacheOpt } from "./local";
+import { CacheHooks } from "./metrics";
+import { CircuitBreakerOpt } from "./breaker";
+import { CompressAlgorithm, CompressOpt } from "./compress";
+import { DurableDeletionOpt } from "./deletion";
+import { ConsistencyOpt } from "./consistency";
+
+/**
+ * Global options of the cache decorators, set by KoattyCached
+ *
+ * @export
+ * @interface CacheConfig
+ */
+export interface CacheConfig {
+  // default serializer of the cached values
+  serializer?: Serializer;
+  // in-process cache in front of the cache store, disabled by default
+  local?: LocalCacheOpt;
+  // hooks called on cache hit, miss, set, evict and error
+  hooks?: CacheHooks;
+  // timeout of each cache store operation, milliseconds, disabled by default
+  operationTimeout?: number;
+  // skip the cache store after consecutive failures or timeouts, disabled by default
+  circuitBreaker?: boolean | CircuitBreakerOpt;
+  // default compression of the cached payloads, disabled by default
+  compress?: boolean | CompressAlgorithm | CompressOpt;
+  // default max size of the cached payloads, bytes, unlimited by default
+  maxSize?: number;
+  // prefix of all cache keys, e.g. the application name
+  namespace?: string;
+  // cacheNames purged by CacheManager.evictAll or the admin purge,
+  // those of CacheEvict with allEntries are indexed without being listed
+  indexedNames?: string[];
+  // record the delayed double deletions in the store, so that any node completes them after a restart
+  durableDeletion?: boolean | DurableDeletionOpt;
+  // CacheAble only writes results when no eviction happened since the method started, disabled by default
+  consistency?: boolean | ConsistencyOpt;
+}
+
+// cacheConfig
+const cacheConfig: CacheConfig = {};
+
+/**
+ * Set the global cache options
+ *
+ * @export
+ * @param {CacheConfig} config
+ */
+export function setCacheConfig(config: CacheConfig) {
+  Object.assign(cacheConfig, config);
+}
+
+/**
+ * Get the global cache options
+ *
+ * @export
+ * @returns {*}  {CacheConfig}
+ */
+export function getCacheConfig(): CacheConfig {
+  return cacheConfig;
+}
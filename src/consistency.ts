@@ -0,0 +1,208 @@
+/*
+ * @Description: Consistency mode, versioned writes against stale backfill
+ * @License: BSD (3-Clause)
+ * @Copyright (c): <richenlin(at)gmail.com>
+ */
+import { DefaultLogger as logger } from "koatty_logger";
+import { CacheStore } from "koatty_store";
+import { getCacheConfig } from "./config";
+import { getVersionKey } from "./tags";
+import { invalidateLocal } from "./local";
+
+/**
+ * Options of the consistency mode
+ *
+ * @export
+ * @interface ConsistencyOpt
+ */
+export interface ConsistencyOpt {
+  // seconds the versions are kept after an eviction, longer than the slowest CacheAble method, default 60
+  ttl?: number;
+}
+
+/**
+ * Versions of an entry read before its method is executed
+ *
+ * @export
+ * @interface VersionGuard
+ */
+export interface VersionGuard {
+  keys: string[];
+  // null when the versions could not be read
+  values: string[];
+}
+
+/**
+ * Get the options of the consistency mode, null when not enabled in KoattyCached options
+ *
+ * @returns {*}  {ConsistencyOpt}
+ */
+function getConsistencyOpt(): ConsistencyOpt {
+  const opt = getCacheConfig().consistency;
+  if (!opt) {
+    return null;
+  }
+  return { ...{ ttl: 60 }, ...(opt === true ? {} : opt) };
+}
+
+/**
+ * Version keys of the entry: its key, its cacheName and its tags
+ *
+ * @param {string} cacheName
+ * @param {string} rawKey readable cache key
+ * @param {string[]} tags resolved tags
+ * @returns {*}  {string[]}
+ */
+function getVersionKeys(cacheName: string, rawKey: string, tags: string[]): string[] {
+  return [getVersionKey("key", rawKey), getVersionKey("name", cacheName), ...tags.map(t => getVersionKey("tag", t))];
+}
+
+/**
+ * Read the versions of the entry before its method is executed, null when the consistency mode is disabled
+ *
+ * @export
+ * @param {CacheStore} store
+ * @param {string} cacheName
+ * @param {string} rawKey readable cache key
+ * @param {string[]} tags resolved tags
+ * @returns {*}  {Promise<VersionGuard>}
+ */
+export async function readVersions(store: CacheStore, cacheName: string, rawKey: string,
+  tags: string[]): Promise<VersionGuard> {
+  if (!getConsistencyOpt()) {
+    return null;
+  }
+  const keys = getVersionKeys(cacheName, rawKey, tags);
+  try {
+    return { keys, values: await Promise.all(keys.map(k => store.get(k))) };
+  } catch (e) {
+    logger.error("Cache version error:" + e.message);
+    return { keys, values: null };
+  }
+}
+
+/**
+ * Whether no eviction happened since the versions were read, false when they cannot be compared
+ *
+ * @param {CacheStore} store
+ * @param {VersionGuard} guard
+ * @returns {*}  {Promise<boolean>}
+ */
+async function isCurrent(store: CacheStore, guard: VersionGuard): Promise<boolean> {
+  if (!guard.values) {
+    return false;
+  }
+  try {
+    const values = await Promise.all(guard.keys.map(k => store.get(k)));
+    return values.every((v, i) => (v ?? null) === (guard.values[i] ?? null));
+  } catch (e) {
+    logger.error("Cache version error:" + e.message);
+    return false;
+  }
+}
+
+/**
+ * Write the entry only when no eviction happened since the versions were read.
+ * The versions are checked again after the write, and the entry is deleted when an eviction
+ * ran in between, so a stale result never outlives the eviction.
+ *
+ * @export
+ * @param {CacheStore} store
+ * @param {string} key store key
+ * @param {string} localKey key in the local cache
+ * @param {VersionGuard} guard versions read before the method was executed, null to write directly
+ * @param {() => Promise<number>} write writes the entry and returns its ttl
+ * @returns {*}  {Promise<number>} the ttl written, 0 if nothing was written
+ */
+export async function writeIfCurrent(store: CacheStore, key: string, localKey: string, guard: VersionGuard,
+  write: () => Promise<number>): Promise<number> {
+  if (!guard) {
+    return write();
+  }
+  if (!(await isCurrent(store, guard))) {
+    return 0;
+  }
+  const ttl = await write();
+  if (ttl !== 0 && !(await isCurrent(store, guard))) {
+    await store.del(key).catch((e: Error) => {
+      logger.error("Cache del error:" + e.message);
+    });
+    await invalidateLocal([localKey]);
+    return 0;
+  }
+  return ttl;
+}
+
+/**
+ * Increment the versions of the evicted entry, its cacheName when allEntries is set, and the tags,
+ * so that the CacheAble methods started before do not write their results.
+ * No-op when the consistency mode is disabled, errors are logged.
+ *
+ * @export
+ * @param {CacheStore} store
+ * @param {string} cacheName
+ * @param {string} rawKey readable cache key
+ * @param {string[]} tags resolved tags
+ * @param {boolean} [allEntries]
+ * @returns {*}  {Promise<void>}
+ */
+export async function bumpVersions(store: CacheStore, cacheName: string, rawKey: string, tags: string[],
+  allEntries?: boolean): Promise<void> {
+  const opt = getConsistencyOpt();
+  if (!opt) {
+    return;
+  }
+  const keys = [getVersionKey("key", rawKey), ...tags.map(t => getVersionKey("tag", t))];
+  if (allEntries) {
+    keys.push(getVersionKey("name", cacheName));
+  }
+  await incrVersions(store, keys, opt);
+}
+
+/**
+ * Increment the versions of the tags, before the entries with the tags are purged
+ *
+ * @export
+ * @param {CacheStore} store
+ * @param {string[]} tags
+ * @returns {*}  {Promise<void>}
+ */
+export async function bumpTagVersions(store: CacheStore, tags: string[]): Promise<void> {
+  const opt = getConsistencyOpt();
+  if (opt) {
+    await incrVersions(store, tags.map(t => getVersionKey("tag", t)), opt);
+  }
+}
+
+/**
+ * Increment the version of the cacheName, before all its entries are purged
+ *
+ * @export
+ * @param {CacheStore} store
+ * @param {string} cacheName
+ * @returns {*}  {Promise<void>}
+ */
+export async function bumpNameVersion(store: CacheStore, cacheName: string): Promise<void> {
+  const opt = getConsistencyOpt();
+  if (opt) {
+    await incrVersions(store, [getVersionKey("name", cacheName)], opt);
+  }
+}
+
+/**
+ * Increment the version keys and keep them for the ttl of the consistency mode, errors are logged
+ *
+ * @param {CacheStore} store
+ * @param {string[]} keys
+ * @param {ConsistencyOpt} opt
+ * @returns {*}  {Promise<void>}
+ */
+async function incrVersions(store: CacheStore, keys: string[], opt: ConsistencyOpt): Promise<void> {
+  await Promise.all(keys.map(async (k) => {
+    await store.incr(k);
+    await store.expire(k, opt.ttl);
+  })).catch((e: Error) => {
+    // the entries are still deleted
+    logger.error("Cache version error:" + e.message);
+  });
+}
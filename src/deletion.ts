@@ -0,0 +1,256 @@
+/*
+ * @Description: Delayed double deletions and the durable deletion queue
+ * @License: BSD (3-Clause)
+ * @Copyright (c): <richenlin(at)gmail.com>
+ */
+import { DefaultLogger as logger } from "koatty_logger";
+import { CacheStore } from "koatty_store";
+import { getCacheConfig } from "./config";
+import { getDeletionQueueKey } from "./tags";
+import { evictEntry, getStore } from "./entry";
+import { emitCacheEvent } from "./metrics";
+import { DEFAULT_STORE } from "./store";
+import { callStoreCommand } from "./utils";
+
+/**
+ * Options of the durable delayed deletions
+ *
+ * @export
+ * @interface DurableDeletionOpt
+ */
+export interface DurableDeletionOpt {
+  // interval to poll the due deletions, milliseconds, default 1000
+  interval?: number;
+  // retries of a failed deletion, default 3
+  retries?: number;
+}
+
+/**
+ * A delayed deletion of CacheEvict
+ *
+ * @export
+ * @interface DelayedDeletion
+ */
+export interface DelayedDeletion {
+  // name of the store, default store when not set
+  storeName?: string;
+  cacheName: string;
+  // the cacheName with namespace, version and generation
+  keyName: string;
+  // readable cache key
+  rawKey: string;
+  // resolved tags
+  tags: string[];
+  allEntries?: boolean;
+  // the eviction ran outside of any scope, the entry is deleted in every scope
+  allScopes?: boolean;
+}
+
+/**
+ * A delayed deletion recorded in the store
+ */
+interface DeletionRecord extends DelayedDeletion {
+  // due time, milliseconds since epoch
+  due: number;
+  // failed attempts
+  attempts: number;
+}
+
+// in-process delayed deletions not executed yet
+const pending = new Map<NodeJS.Timeout, () => Promise<void>>();
+
+// poller of the durable deletions
+const worker: { timer?: NodeJS.Timeout; running: boolean; stores: Set<string> } = {
+  running: false,
+  stores: new Set(),
+};
+
+/**
+ * Get the options of the durable deletions, null when not enabled in KoattyCached options
+ *
+ * @returns {*}  {DurableDeletionOpt}
+ */
+function getDurableOpt(): DurableDeletionOpt {
+  const opt = getCacheConfig().durableDeletion;
+  if (!opt) {
+    return null;
+  }
+  return { ...{ interval: 1000, retries: 3 }, ...(opt === true ? {} : opt) };
+}
+
+/**
+ * Execute the deletion, errors are logged and rethrown
+ *
+ * @param {CacheStore} store
+ * @param {DelayedDeletion} deletion
+ * @returns {*}  {Promise<void>}
+ */
+function runDeletion(store: CacheStore, deletion: DelayedDeletion): Promise<void> {
+  const { storeName, cacheName, keyName, rawKey, tags, allEntries, allScopes } = deletion;
+  return evictEntry(store, storeName, cacheName, keyName, rawKey, tags, allEntries, allScopes).catch((e: Error) => {
+    logger.error("Cache double delete error:" + e.message);
+    emitCacheEvent("error", { cacheName, key: rawKey, error: e });
+    throw e;
+  });
+}
+
+/**
+ * Schedule the second deletion of CacheEvict after delayTime.
+ * In the durable mode the deletion is recorded in the store and executed by the poller of any node,
+ * otherwise it is kept in process until CloseCacheStore flushes it.
+ *
+ * @export
+ * @param {CacheStore} store
+ * @param {DelayedDeletion} deletion
+ * @param {number} delayTime milliseconds
+ */
+export function scheduleDeletion(store: CacheStore, deletion: DelayedDeletion, delayTime: number) {
+  const durable = getDurableOpt();
+  if (durable) {
+    const record: DeletionRecord = { ...deletion, due: Date.now() + delayTime, attempts: 0 };
+    const id = `${process.pid}-${Math.random().toString(36).slice(2)}`;
+    startDeletionWorker([deletion.storeName || DEFAULT_STORE]);
+    recordDeletion(store, id, record).catch((e: Error) => {
+      // keep it in process when it cannot be recorded
+      logger.error("Cache deletion record error:" + e.message);
+      scheduleLocal(store, deletion, delayTime);
+    });
+    return;
+  }
+  scheduleLocal(store, deletion, delayTime);
+}
+
+/**
+ * Record the durable deletion in the store.
+ * CacheStore.hset always passes a timeout argument, which redis rejects as a wrong number of arguments,
+ * so the command is sent to the client directly.
+ *
+ * @param {CacheStore} store
+ * @param {string} id
+ * @param {DeletionRecord} record
+ * @returns {*}  {Promise<number>}
+ */
+function recordDeletion(store: CacheStore, id: string, record: DeletionRecord): Promise<number> {
+  return callStoreCommand(store, "hset", getDeletionQueueKey(), id, JSON.stringify(record));
+}
+
+/**
+ * Keep the deletion in process
+ *
+ * @param {CacheStore} store
+ * @param {DelayedDeletion} deletion
+ * @param {number} delayTime milliseconds
+ */
+function scheduleLocal(store: CacheStore, deletion: DelayedDeletion, delayTime: number) {
+  const run = () => runDeletion(store, deletion).catch((): void => undefined);
+  const timer = setTimeout(() => {
+    pending.delete(timer);
+    run();
+  }, delayTime);
+  pending.set(timer, run);
+}
+
+/**
+ * Execute the in-process delayed deletions now
+ *
+ * @export
+ * @returns {*}  {Promise<void>}
+ */
+export async function flushDeletions(): Promise<void> {
+  const runs = Array.from(pending.entries());
+  pending.clear();
+  await Promise.all(runs.map(([timer, run]) => {
+    clearTimeout(timer);
+    return run();
+  }));
+}
+
+/**
+ * Start polling the durable deletions of the stores, when enabled in KoattyCached options
+ *
+ * @export
+ * @param {string[]} storeNames
+ */
+export function startDeletionWorker(storeNames: string[]) {
+  const durable = getDurableOpt();
+  if (!durable) {
+    return;
+  }
+  storeNames.forEach(name => worker.stores.add(name));
+  if (!worker.timer) {
+    worker.timer = setInterval(() => {
+      processDeletions().catch((e: Error) => {
+        logger.error("Cache deletion worker error:" + e.message);
+      });
+    }, durable.interval);
+    worker.timer.unref();
+  }
+}
+
+/**
+ * Stop polling the durable deletions, the records are kept in the stores
+ *
+ * @export
+ */
+export function stopDeletionWorker() {
+  if (worker.timer) {
+    clearInterval(worker.timer);
+  }
+  worker.timer = undefined;
+  worker.stores.clear();
+}
+
+/**
+ * Execute the due durable deletions of all polled stores.
+ * A deletion is claimed by removing its record, so only one node executes it.
+ * Failed deletions are recorded again with backoff until the retries are used up.
+ *
+ * @export
+ * @returns {*}  {Promise<void>}
+ */
+export async function processDeletions(): Promise<void> {
+  const durable = getDurableOpt();
+  if (!durable || worker.running) {
+    return;
+  }
+  worker.running = true;
+  try {
+    for (const storeName of worker.stores) {
+      const store = await getStore(storeName);
+      if (!store) {
+        continue;
+      }
+      const queueKey = getDeletionQueueKey();
+      const records: Record<string, string> = (await store.hgetall(queueKey)) || {};
+      const now = Date.now();
+      await Promise.all(Object.keys(records).map(async (id) => {
+        let record: DeletionRecord;
+        try {
+          record = JSON.parse(records[id]);
+        } catch {
+          await store.hdel(queueKey, id);
+          return;
+        }
+        if (record.due > now || !(await store.hdel(queueKey, id))) {
+          return;
+        }
+        try {
+          await runDeletion(store, record);
+        } catch {
+          if (record.attempts >= durable.retries) {
+            logger.error(`Cache double delete of ${record.rawKey} dropped after ${record.attempts + 1} attempts`);
+            return;
+          }
+          const retry: DeletionRecord = {
+            ...record,
+            attempts: record.attempts + 1,
+            due: now + durable.interval * 2 ** record.attempts,
+          };
+          await recordDeletion(store, id, retry);
+        }
+      }));
+    }
+  } finally {
+    worker.running = false;
+  }
+}
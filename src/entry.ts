@@ -0,0 +1,341 @@
+/*
+ * @Description: Cache entry read, write and eviction shared by the decorators and CacheManager
+ * @License: BSD (3-Clause)
+ * @Copyright (c): <richenlin(at)gmail.com>
+ */
+import { Helper } from "koatty_lib";
+import { DefaultLogger as logger } from "koatty_logger";
+import { CacheStore } from "koatty_store";
+import { callStoreCommand, hashCacheKey } from "./utils";
+import { DEFAULT_STORE, GetCacheStore } from "./store";
+import { CacheEnvelope, createEnvelope, decodeEnvelope, encodeEnvelope, getEnvelopeValue, isNullResult } from "./envelope";
+import { DefaultSerializer, Serializer } from "./serializer";
+import { getCacheConfig } from "./config";
+import { evictEntries, evictScopedEntries, evictTags, indexCacheKey } from "./tags";
+import { GetLocalCache, invalidateLocal } from "./local";
+import { CacheEvent, emitCacheEvent } from "./metrics";
+import { getCircuitBreaker, guardStore } from "./breaker";
+import { CompressAlgorithm, compressPayload, CompressOpt, decompressPayload, getCompressOpt } from "./compress";
+import { bumpVersions } from "./consistency";
+
+/**
+ * Cache validity period in seconds, or a function of the result and the method arguments returning it.
+ * 0 keeps the entry without expiry.
+ */
+export type CacheTimeout = number | ((result: any, args: any[]) => number);
+
+/**
+ * Entry options shared by the decorators and CacheManager
+ *
+ * @export
+ * @interface EntryOpt
+ */
+export interface EntryOpt {
+  // cache validity period in seconds, or a function of the result and the arguments returning it, 0 for no expiry
+  timeout?: CacheTimeout;
+  // random extra seconds added to timeout, or a percentage of it such as "10%"
+  ttlJitter?: number | string;
+  // seconds to keep the entry after timeout, CacheAble serves it as stale while refreshing in background
+  staleTtl?: number;
+  // serializer of the cached value, defaults to the serializer of KoattyCached options
+  serializer?: Serializer;
+  // cache null or undefined results, default false
+  cacheNull?: boolean;
+  // cache validity period of null or undefined results, seconds, default 60
+  nullTimeout?: number;
+  // use the local cache when it is enabled in KoattyCached options, default true
+  local?: boolean;
+  // name of the store configured in KoattyCached options, default store when not set
+  store?: string;
+  // compress payloads above a size threshold, defaults to the compress of KoattyCached options
+  compress?: boolean | CompressAlgorithm | CompressOpt;
+  // max size of the stored payload in bytes, larger values are not cached, defaults to KoattyCached options
+  maxSize?: number;
+}
+
+/**
+ * Default entry options
+ */
+export const defaultEntryOpt = { timeout: 300, cacheNull: false, nullTimeout: 60 };
+
+/**
+ * Get the store of the decorator, guarded by the operation timeout and the circuit breaker.
+ * Returns null when the store is unavailable or its circuit is open.
+ *
+ * @param {string} [storeName]
+ * @returns {*}  {Promise<CacheStore>}
+ */
+export async function getStore(storeName?: string): Promise<CacheStore> {
+  const store: CacheStore = await GetCacheStore(storeName).catch((e: Error): null => {
+    logger.error("Get cache store instance failed." + e.message);
+    return null;
+  });
+  if (!store) {
+    return null;
+  }
+  const breaker = getCircuitBreaker(storeName || DEFAULT_STORE);
+  if (breaker && !breaker.allow()) {
+    return null;
+  }
+  return guardStore(store, breaker);
+}
+
+/**
+ * Cache read result
+ */
+export interface CacheResult {
+  hit: boolean;
+  value?: any;
+  envelope?: CacheEnvelope;
+}
+
+/**
+ * Read and parse the cached value of the key, from the local cache first when enabled.
+ * A corrupted value is deleted and reported as a miss.
+ *
+ * @param {CacheStore} store
+ * @param {string} key
+ * @param {EntryOpt} opt
+ * @param {CacheEvent} event cacheName and readable key of the entry
+ * @returns {*}  {Promise<CacheResult>}
+ */
+export async function getCacheValue(store: CacheStore, key: string, opt: EntryOpt,
+  event: CacheEvent): Promise<CacheResult> {
+  return (await getCacheValues(store, [key], opt, [event]))[0];
+}
+
+/**
+ * Read and parse the cached values of the keys, from the local cache first when enabled.
+ * The keys missing in the local cache are read from the store with a single multi-get.
+ *
+ * @param {CacheStore} store
+ * @param {string[]} keys
+ * @param {EntryOpt} opt
+ * @param {CacheEvent[]} events cacheName and readable key of each entry
+ * @returns {*}  {Promise<CacheResult[]>}
+ */
+export async function getCacheValues(store: CacheStore, keys: string[], opt: EntryOpt,
+  events: CacheEvent[]): Promise<CacheResult[]> {
+  const local = opt.local === false ? null : GetLocalCache();
+  const data: string[] = keys.map(key => local ? local.get(getScopedKey(opt.store, key)) : undefined);
+  const pending = keys.map((_, i) => i).filter(i => data[i] === undefined);
+  if (pending.length > 0) {
+    const values = await multiGet(store, pending.map(i => keys[i])).catch((e: Error): string[] => {
+      logger.error("Cache get error:" + e.message);
+      pending.forEach(i => emitCacheEvent("error", { ...events[i], error: e }));
+      return [];
+    });
+    pending.forEach((i, n) => {
+      data[i] = values[n];
+    });
+  }
+
+  return Promise.all(keys.map(async (key, i): Promise<CacheResult> => {
+    const res = data[i];
+    if (Helper.isEmpty(res)) {
+      return { hit: false };
+    }
+    const localKey = getScopedKey(opt.store, key);
+    try {
+      const envelope = decodeEnvelope(await decompressPayload(res), getSerializer(opt));
+      const remaining = Math.floor((envelope.e - Date.now()) / 1000);
+      if (local && pending.includes(i) && remaining > 0) {
+        local.set(localKey, res, remaining);
+      }
+      return { hit: true, value: getEnvelopeValue(envelope), envelope };
+    } catch (e) {
+      const error = e as Error;
+      logger.error("Cache deserialize error:" + error.message);
+      emitCacheEvent("error", { ...events[i], error });
+      // 如果解析失败，删除损坏的缓存，重新执行方法
+      if (local) {
+        local.del(localKey);
+      }
+      store.del(key).catch((err: Error) => {
+        logger.error("Cache del error after parse failure:" + err.message);
+      });
+      return { hit: false };
+    }
+  }));
+}
+
+/**
+ * Get the values of the keys, with the native mget of the store client when there are several keys
+ *
+ * @param {CacheStore} store
+ * @param {string[]} keys
+ * @returns {*}  {Promise<string[]>}
+ */
+function multiGet(store: CacheStore, keys: string[]): Promise<string[]> {
+  const native = <any>store;
+  if (keys.length > 1 && Helper.isFunction(native.wrap)) {
+    const prefix = (store.options && store.options.keyPrefix) || "";
+    return native.wrap("mget", keys.map(key => `${prefix}${key}`));
+  }
+  return Promise.all(keys.map(key => store.get(key)));
+}
+
+/**
+ * Wrap the value in an envelope and write it to the cache, errors are logged.
+ * The entry is kept in the store for timeout + staleTtl seconds, plus the jitter.
+ * Null results are only written when cacheNull is enabled, using nullTimeout.
+ *
+ * @param {CacheStore} store
+ * @param {string} key
+ * @param {*} result
+ * @param {EntryOpt} opt
+ * @param {CacheEvent} event cacheName and readable key of the entry
+ * @param {number} [duration] compute time, milliseconds
+ * @param {any[]} [args] method arguments, for the timeout function
+ * @returns {*}  {Promise<number>} the ttl written, -1 without expiry, 0 if nothing was written
+ */
+export async function setCacheValue(store: CacheStore, key: string, result: any, opt: EntryOpt,
+  event: CacheEvent, duration?: number, args: any[] = []): Promise<number> {
+  let timeout: number;
+  if (isNullResult(result)) {
+    if (!opt.cacheNull) {
+      return 0;
+    }
+    timeout = opt.nullTimeout;
+  } else {
+    try {
+      timeout = typeof opt.timeout === "function" ? opt.timeout(result, args) : opt.timeout;
+    } catch (e) {
+      logger.error("Cache timeout error:" + e.message);
+      emitCacheEvent("error", { ...event, error: e });
+      return 0;
+    }
+  }
+  // only a timeout of exactly 0 keeps the entry without expiry, a wrong timeout must not cache forever
+  if (typeof timeout !== "number" || !Number.isFinite(timeout) || timeout < 0) {
+    const e = new Error(`invalid timeout ${timeout} of ${event.key}, it will not be cached`);
+    logger.error("Cache timeout error:" + e.message);
+    emitCacheEvent("error", { ...event, error: e });
+    return 0;
+  }
+  timeout = applyJitter(timeout, opt.ttlJitter);
+  const ttl = timeout !== 0 ? timeout + (isNullResult(result) ? 0 : opt.staleTtl || 0) : -1;
+  const envelope = createEnvelope(result, timeout, duration);
+  const config = getCacheConfig();
+  let data: string;
+  try {
+    data = await compressPayload(encodeEnvelope(envelope, getSerializer(opt)),
+      getCompressOpt(opt.compress ?? config.compress));
+  } catch (e) {
+    logger.error("Cache serialize error:" + e.message);
+    emitCacheEvent("error", { ...event, error: e });
+    return 0;
+  }
+  const maxSize = opt.maxSize ?? config.maxSize;
+  const size = Buffer.byteLength(data);
+  if (maxSize > 0 && size > maxSize) {
+    logger.Warn(`Cache value of ${event.key} is too large: ${size} bytes, max ${maxSize}. It will not be cached.`);
+    emitCacheEvent("oversize", { ...event, size });
+    // do not leave an outdated value behind
+    await store.del(key).catch((e: Error) => {
+      logger.error("Cache del error:" + e.message);
+    });
+    return 0;
+  }
+  const start = Date.now();
+  const writing: Promise<any> = ttl > 0 ? store.set(key, data, ttl) : callStoreCommand(store, "set", key, data);
+  return writing
+    .then((): number => {
+      emitCacheEvent("set", { ...event, duration: Date.now() - start });
+      const local = opt.local === false ? null : GetLocalCache();
+      const remaining = Math.floor((envelope.e - Date.now()) / 1000);
+      if (local && remaining > 0) {
+        local.set(getScopedKey(opt.store, key), data, remaining);
+      }
+      return ttl;
+    }, (e: Error): number => {
+      logger.error("Cache set error:" + e.message);
+      emitCacheEvent("error", { ...event, error: e });
+      return 0;
+    });
+}
+
+/**
+ * Add the random jitter to the timeout
+ *
+ * @param {number} timeout seconds
+ * @param {(number | string)} [jitter] seconds, or a percentage of the timeout such as "10%"
+ * @returns {*}  {number}
+ */
+function applyJitter(timeout: number, jitter?: number | string): number {
+  if (timeout === 0 || !jitter) {
+    return timeout;
+  }
+  const max = typeof jitter === "string" && jitter.endsWith("%") ?
+    timeout * Helper.toNumber(jitter.slice(0, -1)) / 100 : Helper.toNumber(jitter);
+  return timeout + Math.round(Math.random() * (max || 0));
+}
+
+/**
+ * Record the entry in the cacheName and tag indexes, errors are logged.
+ *
+ * @param {CacheStore} store
+ * @param {CacheEvent} event cacheName and readable key of the entry
+ * @param {string[]} tags
+ * @param {number} ttl
+ * @returns {*}  {Promise<void>}
+ */
+export function indexEntry(store: CacheStore, event: CacheEvent, tags: string[], ttl: number): Promise<void> {
+  return indexCacheKey(store, event.cacheName, event.key, tags, ttl).catch((e: Error) => {
+    logger.error("Cache index error:" + e.message);
+    emitCacheEvent("error", { ...event, error: e });
+  });
+}
+
+/**
+ * Delete the entry, and the entries selected by allEntries and tags.
+ * With allScopes, the entry is also deleted in every scope, see evictScopedEntries.
+ * The deleted keys are also dropped from the local cache of all nodes.
+ * In the consistency mode the versions are incremented first, see bumpVersions.
+ *
+ * @param {CacheStore} store
+ * @param {string} storeName
+ * @param {string} cacheName
+ * @param {string} keyName the cacheName with namespace, version and generation
+ * @param {string} rawKey readable cache key
+ * @param {string[]} tags
+ * @param {boolean} [allEntries]
+ * @param {boolean} [allScopes]
+ * @returns {*}  {Promise<void>}
+ */
+export async function evictEntry(store: CacheStore, storeName: string, cacheName: string, keyName: string,
+  rawKey: string, tags: string[], allEntries?: boolean, allScopes?: boolean): Promise<void> {
+  const key = hashCacheKey(rawKey);
+  // the versions of the scoped keys are not known, the version of the cacheName is incremented
+  await bumpVersions(store, cacheName, rawKey, tags, allEntries || allScopes);
+  const [, entries, scoped, tagged] = await Promise.all([
+    store.del(key),
+    allEntries ? evictEntries(store, cacheName, rawKey === keyName ? undefined : rawKey) : [],
+    allScopes ? evictScopedEntries(store, cacheName, keyName, rawKey, allEntries) : [],
+    tags.length > 0 ? evictTags(store, tags) : [],
+  ]);
+  const keys = new Set([key, ...entries.concat(scoped, tagged).map(hashCacheKey)]);
+  await invalidateLocal(Array.from(keys).map(k => getScopedKey(storeName, k)));
+}
+
+/**
+ * Key of the entry in the local cache and the in-process single flight,
+ * prefixed with the store name for the named stores
+ *
+ * @param {string} storeName
+ * @param {string} key store key
+ * @returns {*}  {string}
+ */
+export function getScopedKey(storeName: string, key: string): string {
+  return !storeName || storeName === DEFAULT_STORE ? key : `@${storeName}:${key}`;
+}
+
+/**
+ * Get the serializer of the decorator, falls back to the global one
+ *
+ * @param {EntryOpt} opt
+ * @returns {*}  {Serializer}
+ */
+export function getSerializer(opt: EntryOpt): Serializer {
+  return opt.serializer || getCacheConfig().serializer || DefaultSerializer;
+}
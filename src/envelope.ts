@@ -0,0 +1,115 @@
+/*
+ * @Description: Stored format of the cache entries
+ * @License: BSD (3-Clause)
+ * @Copyright (c): <richenlin(at)gmail.com>
+ */
+import { Helper } from "koatty_lib";
+import { DefaultSerializer, Serializer } from "./serializer";
+
+/**
+ * The stored format of a cache entry
+ *
+ * @interface CacheEnvelope
+ */
+export interface CacheEnvelope {
+  // cached value
+  v: any;
+  // write time, timestamp in milliseconds
+  t: number;
+  // soft expiry, timestamp in milliseconds
+  e: number;
+  // time taken by the method to compute the value, milliseconds
+  d: number;
+  // miss sentinel, set instead of v when the method returned null or undefined
+  n?: "null" | "undefined";
+}
+
+/**
+ * Create a cache envelope for the value
+ *
+ * @param value cached value
+ * @param timeout soft ttl, seconds, 0 for no expiry
+ * @param duration compute time, milliseconds
+ * @returns {CacheEnvelope}
+ */
+export function createEnvelope(value: any, timeout: number, duration = 0): CacheEnvelope {
+  const now = Date.now();
+  const e = timeout > 0 ? now + timeout * 1000 : Number.MAX_SAFE_INTEGER;
+  if (isNullResult(value)) {
+    return { v: null, t: now, e, d: duration, n: value === null ? "null" : "undefined" };
+  }
+  return { v: value, t: now, e, d: duration };
+}
+
+/**
+ * Get the cached value of the envelope, restores null and undefined from the miss sentinel
+ *
+ * @param envelope
+ * @returns {*}
+ */
+export function getEnvelopeValue(envelope: CacheEnvelope): any {
+  if (envelope.n) {
+    return envelope.n === "null" ? null : undefined;
+  }
+  return envelope.v;
+}
+
+/**
+ * Whether the method result is a negative (not found) result
+ *
+ * @param value
+ * @returns {boolean}
+ */
+export function isNullResult(value: any): boolean {
+  return value === null || value === undefined;
+}
+
+/**
+ * Encode the envelope to the string stored in the cache
+ *
+ * @param envelope
+ * @param serializer
+ * @returns {string}
+ */
+export function encodeEnvelope(envelope: CacheEnvelope, serializer: Serializer = DefaultSerializer): string {
+  return serializer.serialize(envelope);
+}
+
+/**
+ * Decode the string stored in the cache. Throws if the data is not an envelope.
+ *
+ * @param data stored string
+ * @param serializer
+ * @returns {CacheEnvelope}
+ */
+export function decodeEnvelope(data: string, serializer: Serializer = DefaultSerializer): CacheEnvelope {
+  const envelope = serializer.deserialize(data);
+  if (!Helper.isObject(envelope) || !Helper.isNumber(envelope.t) || !Helper.isNumber(envelope.e)) {
+    throw Error("Invalid cache envelope");
+  }
+  return envelope;
+}
+
+/**
+ * Whether the envelope has passed its soft expiry
+ *
+ * @param envelope
+ * @returns {boolean}
+ */
+export function isStale(envelope: CacheEnvelope): boolean {
+  return Date.now() >= envelope.e;
+}
+
+/**
+ * Probabilistic early expiration (XFetch).
+ * The closer to the soft expiry and the more expensive the computation,
+ * the more likely a refresh is triggered.
+ *
+ * @param envelope
+ * @param beta values > 1 favor earlier refresh, default 1
+ * @returns {boolean}
+ */
+export function shouldRefreshAhead(envelope: CacheEnvelope, beta = 1): boolean {
+  const delta = envelope.d || 0;
+  return Date.now() - delta * beta * Math.log(Math.random()) >= envelope.e;
+}
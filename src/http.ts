@@ -0,0 +1,205 @@
+/*
+ * @Description: HTTP response cache middleware
+ * @License: BSD (3-Clause)
+ * @Copyright (c): <richenlin(at)gmail.com>
+ */
+import { KoattyContext, KoattyMiddleware, KoattyNext } from "koatty_core";
+import { Helper } from "koatty_lib";
+import { buildParamsKey, hashCacheKey } from "./utils";
+import { defaultEntryOpt, EntryOpt, getCacheValue, getStore, setCacheValue } from "./entry";
+import { CacheEvent, emitCacheEvent } from "./metrics";
+import { getKeyName } from "./version";
+import { getCompressOpt } from "./compress";
+
+/**
+ * Options of the HTTP response cache middleware
+ *
+ * @export
+ * @interface HttpCacheOpt
+ */
+export interface HttpCacheOpt extends Omit<EntryOpt, "cacheNull" | "nullTimeout"> {
+  // cache name of the responses, default "http"
+  cacheName?: string;
+  // version of the cached responses
+  version?: string | number;
+  // query params in the cache key, default all
+  query?: string[];
+  // request headers in the cache key, e.g. ["accept-language"]
+  vary?: string[];
+  // request methods to cache, default ["GET"]
+  methods?: string[];
+  // response statuses to cache, default [200]
+  statuses?: number[];
+  // evaluated before lookup, the cache is bypassed when it returns false
+  condition?: (ctx: KoattyContext) => boolean;
+  // add an ETag to the cached responses and answer If-None-Match with 304, default true
+  etag?: boolean;
+  // cache the requests with Authorization or Cookie headers, shared by all users, default false.
+  // A header named in vary is allowed as it keys the responses
+  credentials?: boolean;
+}
+
+/**
+ * A cached response
+ */
+interface CachedResponse {
+  status: number;
+  headers: Record<string, string | string[]>;
+  // body, base64 when binary
+  body: string;
+  binary?: boolean;
+}
+
+// response headers not stored with the response
+const skippedHeaders = new Set(["connection", "content-length", "date", "keep-alive", "set-cookie",
+  "transfer-encoding"]);
+
+// request headers identifying the user, the responses are private
+const credentialHeaders = ["authorization", "cookie"];
+
+/**
+ * Cache the responses of the routes behind the middleware in the cache store.
+ * Responses are keyed by method, path, the selected query params and vary headers,
+ * and served with status, headers and body. Requests with Cache-Control: no-cache
+ * or no-store bypass the cache, as well as the requests with Authorization or Cookie
+ * unless credentials is set or the headers are in vary. Responses with Set-Cookie or
+ * Cache-Control: no-store or private are not cached.
+ *
+ * @export
+ * @param {HttpCacheOpt} [opt]
+ * e.g:
+ * {
+ *  query: ["page"],
+ *  vary: ["accept-language"],
+ *  timeout: 60
+ * }
+ * @returns {*}  {KoattyMiddleware}
+ */
+export function CacheResponse(opt: HttpCacheOpt = {}): KoattyMiddleware {
+  const mergedOpt = {
+    ...{ cacheName: "http", methods: ["GET"], statuses: [200], etag: true, ...defaultEntryOpt },
+    ...opt,
+  };
+  getCompressOpt(mergedOpt.compress);
+  const methods = mergedOpt.methods.map(m => m.toUpperCase());
+
+  return async (ctx: KoattyContext, next: KoattyNext) => {
+    const requestCacheControl = ctx.get("cache-control");
+    if (!methods.includes(ctx.method) || /no-cache|no-store/i.test(requestCacheControl) ||
+      hasCredentials(ctx, mergedOpt) || (mergedOpt.condition && !mergedOpt.condition(ctx))) {
+      return next();
+    }
+    const store = await getStore(mergedOpt.store);
+    if (!store) {
+      return next();
+    }
+    const keyName = await getKeyName(store, mergedOpt.store, mergedOpt.cacheName, mergedOpt.version);
+    const rawKey = buildParamsKey(keyName, getKeyParams(ctx, mergedOpt));
+    const key = hashCacheKey(rawKey);
+    const event: CacheEvent = { cacheName: mergedOpt.cacheName, key: rawKey };
+
+    const start = Date.now();
+    const cached = await getCacheValue(store, key, mergedOpt, event);
+    emitCacheEvent(cached.hit ? "hit" : "miss", { ...event, duration: Date.now() - start });
+    if (cached.hit) {
+      const res: CachedResponse = cached.value;
+      ctx.status = res.status;
+      Object.keys(res.headers).forEach(name => ctx.set(name, res.headers[name]));
+      if (mergedOpt.etag && ctx.fresh) {
+        ctx.status = 304;
+        return;
+      }
+      ctx.body = res.binary ? Buffer.from(res.body, "base64") : res.body;
+      return;
+    }
+
+    const computeStart = Date.now();
+    await next();
+    const res = toCachedResponse(ctx, mergedOpt);
+    if (!res) {
+      return;
+    }
+    if (mergedOpt.etag && !res.headers.etag) {
+      res.headers.etag = `"${Helper.murmurHash(res.body)}"`;
+      ctx.set("etag", <string>res.headers.etag);
+    }
+    setCacheValue(store, key, res, { ...mergedOpt, cacheNull: false }, event, Date.now() - computeStart);
+    if (mergedOpt.etag && ctx.fresh) {
+      ctx.status = 304;
+    }
+  };
+}
+
+/**
+ * Whether the request carries credentials not keying the response, such as Authorization or Cookie
+ *
+ * @param {KoattyContext} ctx
+ * @param {HttpCacheOpt} opt
+ * @returns {*}  {boolean}
+ */
+function hasCredentials(ctx: KoattyContext, opt: HttpCacheOpt): boolean {
+  if (opt.credentials) {
+    return false;
+  }
+  const vary = (opt.vary || []).map(name => name.toLowerCase());
+  return credentialHeaders.some(name => !vary.includes(name) && !Helper.isEmpty(ctx.get(name)));
+}
+
+/**
+ * Values of the cache key: method, path, query params and vary headers
+ *
+ * @param {KoattyContext} ctx
+ * @param {HttpCacheOpt} opt
+ * @returns {*}  {Record<string, any>}
+ */
+function getKeyParams(ctx: KoattyContext, opt: HttpCacheOpt): Record<string, any> {
+  const params: Record<string, any> = { method: ctx.method, path: ctx.path };
+  const query: Record<string, any> = {};
+  (opt.query || Object.keys(ctx.query)).forEach(name => {
+    if (ctx.query[name] !== undefined) {
+      query[name] = ctx.query[name];
+    }
+  });
+  if (!Helper.isEmpty(query)) {
+    params.query = query;
+  }
+  (opt.vary || []).forEach(name => {
+    params[name.toLowerCase()] = ctx.get(name) || undefined;
+  });
+  return params;
+}
+
+/**
+ * Get the response to cache, null when it must not be cached
+ *
+ * @param {KoattyContext} ctx
+ * @param {HttpCacheOpt} opt
+ * @returns {*}  {CachedResponse}
+ */
+function toCachedResponse(ctx: KoattyContext, opt: HttpCacheOpt): CachedResponse {
+  if (!opt.statuses.includes(ctx.status) || ctx.response.get("set-cookie") ||
+    /no-store|private/i.test(ctx.response.get("cache-control"))) {
+    return null;
+  }
+  const body = ctx.body;
+  let res: Pick<CachedResponse, "body" | "binary">;
+  if (body === null || body === undefined) {
+    res = { body: "" };
+  } else if (Buffer.isBuffer(body)) {
+    res = { body: body.toString("base64"), binary: true };
+  } else if (typeof body === "string") {
+    res = { body };
+  } else if (typeof (<any>body).pipe === "function") {
+    // streams are not cached
+    return null;
+  } else {
+    res = { body: JSON.stringify(body) };
+  }
+  const headers: Record<string, string | string[]> = {};
+  Object.entries(ctx.response.headers).forEach(([name, value]) => {
+    if (!skippedHeaders.has(name.toLowerCase()) && value !== undefined) {
+      headers[name.toLowerCase()] = Array.isArray(value) ? value : String(value);
+    }
+  });
+  return { status: ctx.status, headers, ...res };
+}
@@ -8,11 +8,56 @@
  * @Copyright (c): <richenlin(at)gmail.com>
  */
 import { Koatty } from "koatty_core";
+import { IOCContainer } from "koatty_container";
 import { StoreOptions } from "koatty_store";
-import { CloseCacheStore, GetCacheStore } from "./store";
+import { CloseCacheStore, DEFAULT_STORE, GetCacheStore } from "./store";
+import { CacheConfig, setCacheConfig } from "./config";
+import { initLocalCache } from "./local";
+import { CacheManager } from "./manager";
+import { CacheWarmupOpt, RunCacheWarmup } from "./warmup";
+import { startDeletionWorker } from "./deletion";
+import { setAppContextStorage } from "./scope";
+import { CacheAdmin, CacheAdminOpt } from "./admin";
+import { getCompressOpt } from "./compress";
 
 export * from "./cache";
 export * from "./store";
+export * from "./serializer";
+export * from "./manager";
+export * from "./bus";
+export { CacheEvents, GetCacheMetrics, GetCacheStats, ResetCacheStats } from "./metrics";
+export type { CacheEvent, CacheEventType, CacheHooks, CacheStats } from "./metrics";
+export { GetCircuitState } from "./breaker";
+export type { CompressAlgorithm, CompressOpt } from "./compress";
+export type { CircuitBreakerOpt, CircuitState } from "./breaker";
+export { GetLocalCache, LocalCache } from "./local";
+export type { LocalCacheOpt } from "./local";
+export type { CacheConfig } from "./config";
+export type { DurableDeletionOpt } from "./deletion";
+export type { ConsistencyOpt } from "./consistency";
+export type { CacheTag } from "./tags";
+export type { CacheTimeout } from "./entry";
+export { CacheWarmup, GetCacheRegistry, RunCacheWarmup } from "./warmup";
+export { BumpCacheVersion } from "./version";
+export { CacheResponse } from "./http";
+export type { HttpCacheOpt } from "./http";
+export { EvictCacheScope, GetCacheContext, RunWithCacheContext } from "./scope";
+export type { CacheScopeResolver } from "./scope";
+export { CacheAdmin } from "./admin";
+export type { CacheAdminOpt } from "./admin";
+export type { CacheRegistryItem, CacheWarmupArgs, CacheWarmupOpt, CacheWarmupResult } from "./warmup";
+
+/**
+ * Options of the cacheable plugin, the store options plus the global cache options
+ */
+export type CacheOptions = StoreOptions & CacheConfig & {
+  // named stores selected by the store option of the decorators
+  stores?: Record<string, StoreOptions>;
+  // pre-populate the @CacheWarmup methods when the stores are ready
+  warmup?: boolean | CacheWarmupOpt;
+  // mount the cache admin routes, disabled when not set
+  admin?: CacheAdminOpt;
+};
 
 /** 
  * defaultOptions
@@ -28,12 +73,37 @@ const defaultOptions: StoreOptions = {
  * @param options - The options for the cached options
  * @param app - The Koatty application instance
  */
-export async function KoattyCached(options: StoreOptions, app: Koatty) {
-  options = { ...defaultOptions, ...options };
+export async function KoattyCached(options: CacheOptions, app: Koatty) {
+  const { serializer, local, hooks, operationTimeout, circuitBreaker, compress, maxSize, namespace, indexedNames,
+    durableDeletion, consistency, stores, warmup, admin, ...storeOptions } = { ...defaultOptions, ...options };
+  getCompressOpt(compress);
+  setCacheConfig({ serializer, local, hooks, operationTimeout, circuitBreaker, compress, maxSize, namespace,
+    indexedNames, durableDeletion, consistency });
+  if (local) {
+    initLocalCache(local);
+  }
+  // resolve the scope of the decorators from the ctx of the current request
+  if (app && app.ctxStorage) {
+    setAppContextStorage(app.ctxStorage);
+  }
+  if (admin) {
+    app.use(CacheAdmin(admin));
+  }
+  // inject with @Autowired() cacheManager: CacheManager
+  IOCContainer.reg("CacheManager", CacheManager, { type: "COMPONENT", scope: "Singleton" });
 
   app.once("appReady", async function () {
     // 初始化缓存存储
-    await GetCacheStore(options);
+    await Promise.all([
+      GetCacheStore(storeOptions),
+      ...Object.keys(stores || {}).map(name => GetCacheStore(name, { ...defaultOptions, ...stores[name] })),
+    ]);
+    // 完成重启前未执行的延迟双删
+    startDeletionWorker([DEFAULT_STORE, ...Object.keys(stores || {})]);
+    // 缓存预热
+    if (warmup) {
+      await RunCacheWarmup(warmup === true ? {} : warmup);
+    }
   });
 
   app.on("appStop", async function () {
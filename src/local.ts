@@ -0,0 +1,179 @@
+/*
+ * @Description: In-process L1 cache in front of the cache store
+ * @License: BSD (3-Clause)
+ * @Copyright (c): <richenlin(at)gmail.com>
+ */
+import { DefaultLogger as logger } from "koatty_logger";
+import { CacheBus, CacheBusMessage } from "./bus";
+
+/**
+ * Options of the in-process cache in front of the cache store
+ *
+ * @export
+ * @interface LocalCacheOpt
+ */
+export interface LocalCacheOpt {
+  // max number of entries, default 1000
+  max?: number;
+  // max ttl of an entry, seconds, default 10
+  ttl?: number;
+  // bus to broadcast invalidations to other nodes
+  bus?: CacheBus;
+}
+
+/**
+ * Local entry
+ */
+interface LocalEntry {
+  value: string;
+  expire: number;
+}
+
+/**
+ * Bounded in-process LRU cache with ttl, holds the encoded entries of the cache store.
+ *
+ * @export
+ * @class LocalCache
+ */
+export class LocalCache {
+  readonly max: number;
+  readonly ttl: number;
+  private cache = new Map<string, LocalEntry>();
+
+  constructor(opt: LocalCacheOpt = {}) {
+    this.max = opt.max || 1000;
+    this.ttl = opt.ttl || 10;
+  }
+
+  get size(): number {
+    return this.cache.size;
+  }
+
+  /**
+   * Get the entry, refreshes its recency
+   *
+   * @param {string} key
+   * @returns {*}  {string}
+   */
+  get(key: string): string {
+    const entry = this.cache.get(key);
+    if (!entry) {
+      return undefined;
+    }
+    this.cache.delete(key);
+    if (entry.expire <= Date.now()) {
+      return undefined;
+    }
+    this.cache.set(key, entry);
+    return entry.value;
+  }
+
+  /**
+   * Set the entry, the ttl is capped by the ttl of the local cache
+   *
+   * @param {string} key
+   * @param {string} value
+   * @param {number} [ttl] seconds
+   */
+  set(key: string, value: string, ttl?: number) {
+    const seconds = ttl > 0 ? Math.min(ttl, this.ttl) : this.ttl;
+    this.cache.delete(key);
+    this.cache.set(key, { value, expire: Date.now() + seconds * 1000 });
+    while (this.cache.size > this.max) {
+      this.cache.delete(this.cache.keys().next().value);
+    }
+  }
+
+  /**
+   * Delete the entries
+   *
+   * @param {...string[]} keys
+   */
+  del(...keys: string[]) {
+    keys.forEach(k => this.cache.delete(k));
+  }
+
+  /**
+   * Delete all entries
+   */
+  clear() {
+    this.cache.clear();
+  }
+}
+
+// id of this node on the bus
+const nodeId = `${process.pid}-${Math.random().toString(36).slice(2)}`;
+
+// localCache
+const localCache: { cache?: LocalCache; bus?: CacheBus } = {};
+
+/**
+ * Init the local cache, subscribes to invalidations from other nodes
+ *
+ * @export
+ * @param {LocalCacheOpt} opt
+ * @returns {*}  {LocalCache}
+ */
+export function initLocalCache(opt: LocalCacheOpt): LocalCache {
+  localCache.cache = new LocalCache(opt);
+  localCache.bus = opt.bus;
+  if (opt.bus) {
+    const cache = localCache.cache;
+    opt.bus.subscribe((message: CacheBusMessage) => {
+      if (message.source !== nodeId && cache === localCache.cache) {
+        cache.del(...(message.keys || []));
+      }
+    });
+  }
+  return localCache.cache;
+}
+
+/**
+ * Get the local cache, null when not enabled
+ *
+ * @export
+ * @returns {*}  {LocalCache}
+ */
+export function GetLocalCache(): LocalCache {
+  return localCache.cache || null;
+}
+
+/**
+ * Delete the keys from the local cache and broadcast to other nodes
+ *
+ * @export
+ * @param {string[]} keys store keys
+ * @returns {*}  {Promise<void>}
+ */
+export async function invalidateLocal(keys: string[]): Promise<void> {
+  if (!localCache.cache || keys.length === 0) {
+    return;
+  }
+  localCache.cache.del(...keys);
+  if (localCache.bus) {
+    try {
+      await localCache.bus.publish({ source: nodeId, keys });
+    } catch (e) {
+      logger.error("Cache bus publish error:" + e.message);
+    }
+  }
+}
+
+/**
+ * Close the local cache and its bus
+ *
+ * @export
+ * @returns {*}  {Promise<void>}
+ */
+export async function closeLocalCache(): Promise<void> {
+  const bus = localCache.bus;
+  localCache.cache = null;
+  localCache.bus = null;
+  if (bus && bus.close) {
+    try {
+      await bus.close();
+    } catch {
+      // Ignore cleanup errors
+    }
+  }
+}
@@ -0,0 +1,65 @@
+/*
+ * @Description: Single-flight request coalescing
+ * @License: BSD (3-Clause)
+ * @Copyright (c): <richenlin(at)gmail.com>
+ */
+import { CacheStore } from "koatty_store";
+
+// in-flight loads, keyed by cache key
+const flights = new Map<string, Promise<any>>();
+
+/**
+ * Coalesce concurrent calls with the same key into a single execution.
+ * Callers arriving while a call is in flight share its promise.
+ *
+ * @param key cache key
+ * @param fn loader to execute once
+ * @returns Promise resolved with the loader result
+ */
+export function singleFlight<T>(key: string, fn: () => Promise<T>): Promise<T> {
+  const inflight = flights.get(key);
+  if (inflight) {
+    return inflight;
+  }
+  const p = (async () => {
+    try {
+      return await fn();
+    } finally {
+      flights.delete(key);
+    }
+  })();
+  flights.set(key, p);
+  return p;
+}
+
+/**
+ * Try to acquire a distributed lock through the cache store.
+ * Uses incr + expire, which is supported by both memory and redis store.
+ *
+ * @param store cache store
+ * @param lockKey lock key
+ * @param ttl lock ttl, seconds
+ * @returns true if the lock is acquired
+ */
+export async function acquireLock(store: CacheStore, lockKey: string, ttl: number): Promise<boolean> {
+  const count = await store.incr(lockKey);
+  if (count === 1) {
+    await store.expire(lockKey, ttl);
+    return true;
+  }
+  // the holder may have crashed between incr and expire
+  if (await store.ttl(lockKey) < 0) {
+    await store.expire(lockKey, ttl);
+  }
+  return false;
+}
+
+/**
+ * Release the distributed lock
+ *
+ * @param store cache store
+ * @param lockKey lock key
+ */
+export async function releaseLock(store: CacheStore, lockKey: string): Promise<void> {
+  await store.del(lockKey);
+}
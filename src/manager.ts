@@ -0,0 +1,224 @@
+/*
+ * @Description: CacheManager, manual cache access with the decorator key rules
+ * @License: BSD (3-Clause)
+ * @Copyright (c): <richenlin(at)gmail.com>
+ */
+import { Helper } from "koatty_lib";
+import { DefaultLogger as logger } from "koatty_logger";
+import { CacheStore } from "koatty_store";
+import { buildParamsKey, hashCacheKey } from "./utils";
+import {
+  defaultEntryOpt, EntryOpt, evictEntry, getCacheValue, getScopedKey, getStore, indexEntry, setCacheValue
+} from "./entry";
+import { invalidateLocal } from "./local";
+import { bumpVersions } from "./consistency";
+import { CacheEvent, emitCacheEvent } from "./metrics";
+import { formatKeyName, getKeyName } from "./version";
+import { getScopeKeyName, getScopeTag } from "./scope";
+
+/**
+ * Options of CacheManager, same defaults as the decorators
+ *
+ * @export
+ * @interface CacheManagerOpt
+ */
+export interface CacheManagerOpt extends EntryOpt {
+  // tags of the entry
+  tags?: string[];
+  // version of the cached data, same as the version of the decorators
+  version?: string | number;
+  // scope of the entry, same as the value resolved by the scope of the decorators, e.g. the tenant id
+  scope?: string | number;
+}
+
+/**
+ * Values of the key params by name, or [name, value] pairs in the order of the decorator params.
+ * Use pairs when a param name is integer-like, such as the index of an unnamed @CacheKey(),
+ * since objects list those keys first.
+ */
+export type CacheParams = Record<string, any> | [string, any][];
+
+/**
+ * Manual access to the cache entries of the decorators.
+ * Keys are built from named params in the order of the decorator params,
+ * e.g. { id: 1 } for @CacheAble("user", { params: ["id"] }).
+ * Registered in IOCContainer as "CacheManager" by KoattyCached.
+ *
+ * @export
+ * @class CacheManager
+ */
+export class CacheManager {
+  /**
+   * Get the readable cache key used by the decorators,
+   * including the namespace, version and generation of the cacheName
+   *
+   * @param {string} cacheName
+   * @param {CacheParams} [params]
+   * @param {CacheManagerOpt} [opt]
+   * @returns {*}  {Promise<string>}
+   */
+  async getKey(cacheName: string, params?: CacheParams, opt: CacheManagerOpt = {}): Promise<string> {
+    const store = await getStore(opt.store);
+    if (!store) {
+      return buildParamsKey(scopeKeyName(formatKeyName(cacheName, opt.version), opt), params);
+    }
+    return this.buildKey(store, cacheName, params, opt);
+  }
+
+  /**
+   * Get the cached value, undefined when it is not cached
+   *
+   * @template T
+   * @param {string} cacheName
+   * @param {CacheParams} [params]
+   * @param {CacheManagerOpt} [opt]
+   * @returns {*}  {Promise<T>}
+   */
+  async get<T = any>(cacheName: string, params?: CacheParams, opt: CacheManagerOpt = {}): Promise<T> {
+    const store = await getStore(opt.store);
+    if (!store) {
+      return undefined;
+    }
+    const rawKey = await this.buildKey(store, cacheName, params, opt);
+    const event: CacheEvent = { cacheName, key: rawKey };
+    const start = Date.now();
+    const cached = await getCacheValue(store, hashCacheKey(rawKey), opt, event);
+    emitCacheEvent(cached.hit ? "hit" : "miss", { ...event, duration: Date.now() - start });
+    return cached.value;
+  }
+
+  /**
+   * Write the value to the cache, the copies in the local cache of other nodes are dropped as by CachePut
+   *
+   * @param {string} cacheName
+   * @param {CacheParams} params
+   * @param {*} value
+   * @param {CacheManagerOpt} [opt]
+   * @returns {*}  {Promise<boolean>} whether the value was written
+   */
+  async set(cacheName: string, params: CacheParams, value: any, opt: CacheManagerOpt = {}): Promise<boolean> {
+    const store = await getStore(opt.store);
+    if (!store) {
+      return false;
+    }
+    const mergedOpt = { ...defaultEntryOpt, ...opt };
+    const rawKey = await this.buildKey(store, cacheName, params, opt);
+    const key = hashCacheKey(rawKey);
+    const event: CacheEvent = { cacheName, key: rawKey };
+    // the CacheAble methods started before do not overwrite the new value in the consistency mode
+    await bumpVersions(store, cacheName, rawKey, []);
+    // drop the copies in the local cache of other nodes
+    await invalidateLocal([getScopedKey(opt.store, key)]);
+    const ttl = await setCacheValue(store, key, value, mergedOpt, event);
+    if (ttl !== 0) {
+      await indexEntry(store, event, getEntryTags(mergedOpt), ttl);
+    }
+    return ttl !== 0;
+  }
+
+  /**
+   * Delete the entry, and the entries with the tags
+   *
+   * @param {string} cacheName
+   * @param {CacheParams} [params]
+   * @param {CacheManagerOpt} [opt]
+   * @returns {*}  {Promise<void>}
+   */
+  async evict(cacheName: string, params?: CacheParams, opt: CacheManagerOpt = {}): Promise<void> {
+    return this.evictEntries(cacheName, params, opt, false);
+  }
+
+  /**
+   * Delete all entries under the cacheName,
+   * or those whose key starts with the params when params is set
+   *
+   * @param {string} cacheName
+   * @param {CacheParams} [params]
+   * @param {CacheManagerOpt} [opt]
+   * @returns {*}  {Promise<void>}
+   */
+  async evictAll(cacheName: string, params?: CacheParams, opt: CacheManagerOpt = {}): Promise<void> {
+    return this.evictEntries(cacheName, params, opt, true);
+  }
+
+  /**
+   * Get the cached value, or execute fn and cache its result
+   *
+   * @template T
+   * @param {string} cacheName
+   * @param {CacheParams} params
+   * @param {() => Promise<T>} fn
+   * @param {CacheManagerOpt} [opt]
+   * @returns {*}  {Promise<T>}
+   */
+  async wrap<T = any>(cacheName: string, params: CacheParams, fn: () => Promise<T> | T,
+    opt: CacheManagerOpt = {}): Promise<T> {
+    const store = await getStore(opt.store);
+    if (!store) {
+      return fn();
+    }
+    const mergedOpt = { ...defaultEntryOpt, ...opt };
+    const rawKey = await this.buildKey(store, cacheName, params, opt);
+    const key = hashCacheKey(rawKey);
+    const event: CacheEvent = { cacheName, key: rawKey };
+    const start = Date.now();
+    const cached = await getCacheValue(store, key, mergedOpt, event);
+    emitCacheEvent(cached.hit ? "hit" : "miss", { ...event, duration: Date.now() - start });
+    if (cached.hit) {
+      return cached.value;
+    }
+    const computeStart = Date.now();
+    const result = await fn();
+    const ttl = await setCacheValue(store, key, result, mergedOpt, event, Date.now() - computeStart);
+    if (ttl !== 0) {
+      await indexEntry(store, event, getEntryTags(mergedOpt), ttl);
+    }
+    return result;
+  }
+
+  private async evictEntries(cacheName: string, params: CacheParams, opt: CacheManagerOpt,
+    allEntries: boolean): Promise<void> {
+    const store = await getStore(opt.store);
+    if (!store) {
+      return;
+    }
+    const keyName = await getKeyName(store, opt.store, cacheName, opt.version);
+    const rawKey = buildParamsKey(scopeKeyName(keyName, opt), params);
+    const event: CacheEvent = { cacheName, key: rawKey };
+    const start = Date.now();
+    try {
+      await evictEntry(store, opt.store, cacheName, keyName, rawKey, opt.tags || [], allEntries);
+      emitCacheEvent("evict", { ...event, duration: Date.now() - start });
+    } catch (e) {
+      logger.error("Cache delete error:" + e.message);
+      emitCacheEvent("error", { ...event, error: e });
+    }
+  }
+
+  private async buildKey(store: CacheStore, cacheName: string, params: CacheParams,
+    opt: CacheManagerOpt): Promise<string> {
+    return buildParamsKey(scopeKeyName(await getKeyName(store, opt.store, cacheName, opt.version), opt), params);
+  }
+}
+
+/**
+ * Add the scope of the options to the key name
+ *
+ * @param {string} keyName
+ * @param {CacheManagerOpt} opt
+ * @returns {*}  {string}
+ */
+function scopeKeyName(keyName: string, opt: CacheManagerOpt): string {
+  return Helper.isEmpty(opt.scope) ? keyName : getScopeKeyName(keyName, Helper.toString(opt.scope));
+}
+
+/**
+ * Tags of the entry, scoped entries are also tagged with their scope
+ *
+ * @param {CacheManagerOpt} opt
+ * @returns {*}  {string[]}
+ */
+function getEntryTags(opt: CacheManagerOpt): string[] {
+  const tags = opt.tags || [];
+  return Helper.isEmpty(opt.scope) ? tags : [...tags, getScopeTag(opt.scope)];
+}
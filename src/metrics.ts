@@ -0,0 +1,199 @@
+/*
+ * @Description: Cache events, hooks and stats
+ * @License: BSD (3-Clause)
+ * @Copyright (c): <richenlin(at)gmail.com>
+ */
+import { EventEmitter } from "events";
+import { DefaultLogger as logger } from "koatty_logger";
+import { getCacheConfig } from "./config";
+
+/**
+ * Cache event types
+ */
+export type CacheEventType = "hit" | "miss" | "set" | "evict" | "error" | "oversize";
+
+/**
+ * Cache event
+ *
+ * @export
+ * @interface CacheEvent
+ */
+export interface CacheEvent {
+  // cache name of the decorator
+  cacheName: string;
+  // readable cache key
+  key: string;
+  // time taken by the cache operation, milliseconds
+  duration?: number;
+  // the error of an error event
+  error?: Error;
+  // payload size of an oversize event, bytes
+  size?: number;
+}
+
+/**
+ * Cache hooks, set by KoattyCached
+ *
+ * @export
+ * @interface CacheHooks
+ */
+export interface CacheHooks {
+  onHit?: (event: CacheEvent) => void;
+  onMiss?: (event: CacheEvent) => void;
+  onSet?: (event: CacheEvent) => void;
+  onEvict?: (event: CacheEvent) => void;
+  onError?: (event: CacheEvent) => void;
+  onOversize?: (event: CacheEvent) => void;
+}
+
+/**
+ * Statistics of a cacheName
+ *
+ * @export
+ * @interface CacheStats
+ */
+export interface CacheStats {
+  hits: number;
+  misses: number;
+  sets: number;
+  evictions: number;
+  errors: number;
+  // values not cached because of maxSize
+  oversized: number;
+  // hits / (hits + misses)
+  hitRatio: number;
+  // total time of the lookups, milliseconds
+  lookupTime: number;
+  // average time of a lookup, milliseconds
+  avgLookupTime: number;
+}
+
+/**
+ * Emitter of the cache events, listen to "hit", "miss", "set", "evict", "error" and "oversize"
+ */
+export const CacheEvents = new EventEmitter();
+
+// hook of each event type
+const hookNames: Record<CacheEventType, keyof CacheHooks> = {
+  hit: "onHit",
+  miss: "onMiss",
+  set: "onSet",
+  evict: "onEvict",
+  error: "onError",
+  oversize: "onOversize",
+};
+
+// counters of each cacheName
+const counters = new Map<string, Omit<CacheStats, "hitRatio" | "avgLookupTime">>();
+
+/**
+ * Record the event in the stats, then call the hook and the listeners.
+ * Errors of hooks and listeners are logged.
+ *
+ * @export
+ * @param {CacheEventType} type
+ * @param {CacheEvent} event
+ */
+export function emitCacheEvent(type: CacheEventType, event: CacheEvent) {
+  let counter = counters.get(event.cacheName);
+  if (!counter) {
+    counter = { hits: 0, misses: 0, sets: 0, evictions: 0, errors: 0, oversized: 0, lookupTime: 0 };
+    counters.set(event.cacheName, counter);
+  }
+  switch (type) {
+    case "hit":
+      counter.hits++;
+      counter.lookupTime += event.duration || 0;
+      break;
+    case "miss":
+      counter.misses++;
+      counter.lookupTime += event.duration || 0;
+      break;
+    case "set":
+      counter.sets++;
+      break;
+    case "evict":
+      counter.evictions++;
+      break;
+    case "error":
+      counter.errors++;
+      break;
+    case "oversize":
+      counter.oversized++;
+      break;
+  }
+
+  try {
+    const hook = (getCacheConfig().hooks || {})[hookNames[type]];
+    if (hook) {
+      hook(event);
+    }
+    // an "error" event without listeners would throw
+    if (CacheEvents.listenerCount(type) > 0) {
+      CacheEvents.emit(type, event);
+    }
+  } catch (e) {
+    logger.error("Cache hook error:" + e.message);
+  }
+}
+
+/**
+ * Get the statistics of each cacheName
+ *
+ * @export
+ * @returns {*}  {Record<string, CacheStats>}
+ */
+export function GetCacheStats(): Record<string, CacheStats> {
+  const stats: Record<string, CacheStats> = {};
+  counters.forEach((counter, cacheName) => {
+    const lookups = counter.hits + counter.misses;
+    stats[cacheName] = {
+      ...counter,
+      hitRatio: lookups > 0 ? counter.hits / lookups : 0,
+      avgLookupTime: lookups > 0 ? counter.lookupTime / lookups : 0,
+    };
+  });
+  return stats;
+}
+
+/**
+ * Reset the statistics
+ *
+ * @export
+ */
+export function ResetCacheStats() {
+  counters.clear();
+}
+
+/**
+ * Export the statistics in the Prometheus text format
+ *
+ * @export
+ * @param {string} [prefix] metric name prefix, default "koatty_cache"
+ * @returns {*}  {string}
+ */
+export function GetCacheMetrics(prefix = "koatty_cache"): string {
+  const stats = GetCacheStats();
+  const cacheNames = Object.keys(stats);
+  const label = (cacheName: string) =>
+    `{cache="${cacheName.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n")}"}`;
+  const counterMetrics: [string, string, (s: CacheStats) => number][] = [
+    ["hits_total", "Number of cache hits", s => s.hits],
+    ["misses_total", "Number of cache misses", s => s.misses],
+    ["sets_total", "Number of cache writes", s => s.sets],
+    ["evictions_total", "Number of cache evictions", s => s.evictions],
+    ["errors_total", "Number of cache errors", s => s.errors],
+    ["oversized_total", "Number of values too large to cache", s => s.oversized],
+  ];
+  const lines: string[] = [];
+  counterMetrics.forEach(([name, help, getValue]) => {
+    lines.push(`# HELP ${prefix}_${name} ${help}`, `# TYPE ${prefix}_${name} counter`);
+    cacheNames.forEach(n => lines.push(`${prefix}_${name}${label(n)} ${getValue(stats[n])}`));
+  });
+  lines.push(`# HELP ${prefix}_lookup_seconds Time of the cache lookups`, `# TYPE ${prefix}_lookup_seconds summary`);
+  cacheNames.forEach(n => {
+    lines.push(`${prefix}_lookup_seconds_sum${label(n)} ${stats[n].lookupTime / 1000}`);
+    lines.push(`${prefix}_lookup_seconds_count${label(n)} ${stats[n].hits + stats[n].misses}`);
+  });
+  return lines.join("\n") + "\n";
+}
@@ -0,0 +1,126 @@
+/*
+ * @Description: Per-request cache scopes
+ * @License: BSD (3-Clause)
+ * @Copyright (c): <richenlin(at)gmail.com>
+ */
+import { AsyncLocalStorage } from "async_hooks";
+import { Helper } from "koatty_lib";
+import { DefaultLogger as logger } from "koatty_logger";
+import { hashCacheKey } from "./utils";
+import { getScopedKey, getStore } from "./entry";
+import { evictTags } from "./tags";
+import { invalidateLocal } from "./local";
+import { bumpTagVersions } from "./consistency";
+
+/**
+ * Resolve the cache scope, such as the tenant id, from the current context:
+ * the context of RunWithCacheContext, or the Koatty ctx of the current request
+ */
+export type CacheScopeResolver = (ctx: any) => string | number;
+
+// context set by RunWithCacheContext
+const contextStorage = new AsyncLocalStorage<any>();
+
+// request context storage of the Koatty application, set by KoattyCached
+let appStorage: AsyncLocalStorage<unknown>;
+
+/**
+ * Use the request context storage of the Koatty application
+ *
+ * @export
+ * @param {AsyncLocalStorage<unknown>} storage
+ */
+export function setAppContextStorage(storage: AsyncLocalStorage<unknown>) {
+  appStorage = storage;
+}
+
+/**
+ * Execute fn with the context the cache scopes are resolved from,
+ * for code running outside of a request, such as jobs and message consumers
+ *
+ * @export
+ * @template T
+ * @param {*} ctx
+ * @param {() => T} fn
+ * @returns {*}  {T}
+ */
+export function RunWithCacheContext<T>(ctx: any, fn: () => T): T {
+  return contextStorage.run(ctx, fn);
+}
+
+/**
+ * Get the current context, undefined outside of RunWithCacheContext and requests
+ *
+ * @export
+ * @returns {*}  {*}
+ */
+export function GetCacheContext(): any {
+  const ctx = contextStorage.getStore();
+  if (ctx !== undefined) {
+    return ctx;
+  }
+  return appStorage ? appStorage.getStore() : undefined;
+}
+
+/**
+ * Resolve the scope of the current context, undefined when it cannot be resolved
+ *
+ * @export
+ * @param {CacheScopeResolver} resolver
+ * @returns {*}  {string}
+ */
+export function resolveScope(resolver: CacheScopeResolver): string {
+  const ctx = GetCacheContext();
+  if (ctx === undefined) {
+    return undefined;
+  }
+  try {
+    const scope = resolver(ctx);
+    return Helper.isEmpty(scope) ? undefined : Helper.toString(scope);
+  } catch (e) {
+    logger.error("Cache scope error:" + e.message);
+    return undefined;
+  }
+}
+
+/**
+ * Key name of the scope, the scope follows the key name, e.g. "config:@tenantA"
+ *
+ * @export
+ * @param {string} keyName
+ * @param {string} scope
+ * @returns {*}  {string}
+ */
+export function getScopeKeyName(keyName: string, scope: string): string {
+  return `${keyName}:@${scope}`;
+}
+
+/**
+ * Tag of the scoped entries, used to evict a whole scope
+ *
+ * @export
+ * @param {(string | number)} scope
+ * @returns {*}  {string}
+ */
+export function getScopeTag(scope: string | number): string {
+  return `@scope:${scope}`;
+}
+
+/**
+ * Delete all entries of the scope, such as every entry of a tenant.
+ * In the consistency mode the version of the scope tag is incremented first, see bumpVersions.
+ *
+ * @export
+ * @param {(string | number)} scope
+ * @param {string} [storeName] name of the store, default store when not set
+ * @returns {*}  {Promise<void>}
+ */
+export async function EvictCacheScope(scope: string | number, storeName?: string): Promise<void> {
+  const store = await getStore(storeName);
+  if (!store) {
+    return;
+  }
+  await bumpTagVersions(store, [getScopeTag(scope)]);
+  const keys = await evictTags(store, [getScopeTag(scope)]);
+  await invalidateLocal(keys.map(k => getScopedKey(storeName, hashCacheKey(k))));
+}
@@ -0,0 +1,164 @@
+/*
+ * @Description: Serializers of the cached values
+ * @License: BSD (3-Clause)
+ * @Copyright (c): <richenlin(at)gmail.com>
+ */
+import { Helper } from "koatty_lib";
+
+/**
+ * Serializer of the cached values
+ *
+ * @export
+ * @interface Serializer
+ */
+export interface Serializer {
+  serialize(value: any): string;
+  deserialize(data: string): any;
+}
+
+// version of the typed codec format
+export const SERIALIZER_VERSION = 1;
+
+// type tag field
+const TAG = "$t";
+// tagged value field
+const VALUE = "$v";
+
+/**
+ * Encode the value into a JSON compatible structure with type tags
+ *
+ * @param {*} value
+ * @returns {*}
+ */
+function encode(value: any): any {
+  switch (typeof value) {
+    case "undefined":
+      return { [TAG]: "undefined" };
+    case "bigint":
+      return { [TAG]: "BigInt", [VALUE]: value.toString() };
+    case "number":
+      return Number.isFinite(value) ? value : { [TAG]: "Number", [VALUE]: String(value) };
+    case "string":
+    case "boolean":
+      return value;
+    case "function":
+    case "symbol":
+      return undefined;
+  }
+  if (value === null) {
+    return null;
+  }
+  if (Helper.isDate(value)) {
+    const time = value.getTime();
+    return { [TAG]: "Date", [VALUE]: isNaN(time) ? null : value.toISOString() };
+  }
+  if (Buffer.isBuffer(value)) {
+    return { [TAG]: "Buffer", [VALUE]: value.toString("base64") };
+  }
+  if (Helper.isMap(value)) {
+    return { [TAG]: "Map", [VALUE]: Array.from(value.entries()).map(([k, v]) => [encode(k), encode(v)]) };
+  }
+  if (Helper.isSet(value)) {
+    return { [TAG]: "Set", [VALUE]: Array.from(value.values()).map(encode) };
+  }
+  if (Array.isArray(value)) {
+    return value.map(encode);
+  }
+  if (Helper.isFunction(value.toJSON)) {
+    return encode(value.toJSON());
+  }
+  const obj: any = {};
+  for (const k of Object.keys(value)) {
+    const v = value[k];
+    if (typeof v !== "function" && typeof v !== "symbol") {
+      obj[k] = encode(v);
+    }
+  }
+  // escape objects that look like tagged values
+  return Object.prototype.hasOwnProperty.call(obj, TAG) ? { [TAG]: "Object", [VALUE]: obj } : obj;
+}
+
+/**
+ * Restore the value from the tagged structure
+ *
+ * @param {*} data
+ * @returns {*}
+ */
+function decode(data: any): any {
+  if (data === null || typeof data !== "object") {
+    return data;
+  }
+  if (Array.isArray(data)) {
+    return data.map(decode);
+  }
+  if (Object.prototype.hasOwnProperty.call(data, TAG)) {
+    const v = data[VALUE];
+    switch (data[TAG]) {
+      case "undefined":
+        return undefined;
+      case "BigInt":
+        return BigInt(v);
+      case "Number":
+        return Number(v);
+      case "Date":
+        return new Date(v === null ? NaN : v);
+      case "Buffer":
+        return Buffer.from(v, "base64");
+      case "Map":
+        return new Map((<any[]>v).map(([k, val]) => [decode(k), decode(val)]));
+      case "Set":
+        return new Set((<any[]>v).map(decode));
+      case "Object":
+        return decodeObject(v);
+      default:
+        throw Error(`Unknown cache value type: ${data[TAG]}`);
+    }
+  }
+  return decodeObject(data);
+}
+
+/**
+ * Restore the properties of a plain object
+ *
+ * @param {*} data
+ * @returns {*}
+ */
+function decodeObject(data: any): any {
+  const obj: any = {};
+  for (const k of Object.keys(data)) {
+    obj[k] = decode(data[k]);
+  }
+  return obj;
+}
+
+/**
+ * Default serializer, a versioned JSON envelope with type tags.
+ * Round-trips Date, Map, Set, BigInt, Buffer, undefined and non-finite numbers.
+ */
+export const DefaultSerializer: Serializer = {
+  serialize(value: any): string {
+    return JSON.stringify({ $kc: SERIALIZER_VERSION, d: encode(value) });
+  },
+  deserialize(data: string): any {
+    const res = JSON.parse(data);
+    if (res === null || typeof res !== "object" || !Object.prototype.hasOwnProperty.call(res, "$kc")) {
+      throw Error("Invalid cache data format");
+    }
+    if (res.$kc !== SERIALIZER_VERSION) {
+      throw Error(`Incompatible cache data version: ${res.$kc}, expected ${SERIALIZER_VERSION}`);
+    }
+    return decode(res.d);
+  }
+};
+
+/**
+ * Plain JSON serializer, compatible with values written by other clients
+ */
+export const JsonSerializer: Serializer = {
+  serialize(value: any): string {
+    return JSON.stringify(value);
+  },
+  deserialize(data: string): any {
+    return JSON.parse(data);
+  }
+};
@@ -10,75 +10,85 @@
 import { Helper } from "koatty_lib";
 import { DefaultLogger as logger } from "koatty_logger";
 import { CacheStore, StoreOptions } from "koatty_store";
+import { closeLocalCache } from "./local";
+import { resetCircuitBreakers } from "./breaker";
+import { resetGenerations } from "./version";
+import { flushDeletions, stopDeletionWorker } from "./deletion";
 
-/**
- * 
- *
- * @interface CacheStoreInterface
- */
-interface CacheStoreInterface {
-  store?: CacheStore;
-}
+// name of the default store
+export const DEFAULT_STORE = "default";
 
-// storeCache
-const storeCache: CacheStoreInterface = {
-  store: null
-};
+// storeCache, the initialized stores by name
+const storeCache = new Map<string, CacheStore>();
 
-// Promise to track initialization in progress
-let initPromise: Promise<CacheStore> | null = null;
+// Promises to track initialization in progress by name
+const initPromises = new Map<string, Promise<CacheStore>>();
 
 /**
- * get instances of storeCache
+ * get instances of storeCache.
+ * Call with a name to get a named store, with options to initialize it.
  *
  * @export
- * @param {StoreOptions} options
+ * @param {(string | StoreOptions)} [name] store name, default "default"
+ * @param {StoreOptions} [options]
  * @returns {*}  {CacheStore}
  */
-export async function GetCacheStore(options?: StoreOptions): Promise<CacheStore> {
+export async function GetCacheStore(name?: string | StoreOptions, options?: StoreOptions): Promise<CacheStore> {
+  if (!Helper.isString(name)) {
+    options = name || options;
+    name = DEFAULT_STORE;
+  }
+  const storeName = name || DEFAULT_STORE;
+
   // Return existing store if available
-  if (storeCache.store && storeCache.store.getConnection) {
-    return storeCache.store;
+  const store = storeCache.get(storeName);
+  if (store && store.getConnection) {
+    return store;
   }
 
   // If initialization is in progress, wait for it
-  if (initPromise) {
-    return initPromise;
+  if (initPromises.has(storeName)) {
+    return initPromises.get(storeName);
   }
 
   if (Helper.isEmpty(options)) {
-    if (!storeCache.store) {
-      logger.Warn(`CacheStore not initialized. Please call KoattyCached() first with proper options in your application startup.`);
+    if (!store) {
+      logger.Warn(`CacheStore${storeName === DEFAULT_STORE ? "" : ` "${storeName}"`} not initialized. Please call KoattyCached() first with proper options in your application startup.`);
     }
-    return storeCache.store || null;
+    return store || null;
   }
 
   // Start initialization and track it
-  initPromise = (async () => {
+  const initPromise = (async () => {
     try {
-      storeCache.store = CacheStore.getInstance(options);
-      if (!Helper.isFunction(storeCache.store.getConnection)) {
+      const instance = CacheStore.getInstance(options, storeName);
+      storeCache.set(storeName, instance);
+      if (!Helper.isFunction(instance.getConnection)) {
         throw Error(`CacheStore connection failed. `);
       }
-      await storeCache.store.client.getConnection();
-      return storeCache.store;
+      await instance.client.getConnection();
+      return instance;
     } finally {
       // Clear init promise after completion
-      initPromise = null;
+      initPromises.delete(storeName);
     }
   })();
+  initPromises.set(storeName, initPromise);
 
   return initPromise;
 }
 
 /**
- * Close cache store connection for cleanup (mainly for testing)
+ * Close all cache store connections for cleanup (mainly for testing)
  */
 export async function CloseCacheStore(): Promise<void> {
-  if (storeCache.store) {
+  // complete the delayed deletions while the stores are open
+  stopDeletionWorker();
+  await flushDeletions();
+  for (const store of storeCache.values()) {
     try {
-      if (storeCache.store.client) {
-        const client = storeCache.store.client as any;
+      if (store.client) {
+        const client = store.client as any;
         if (typeof client.quit === 'function') {
           await client.quit();
         } else if (typeof client.close === 'function') {
@@ -98,6 +108,9 @@ export async function CloseCacheStore(): Promise<void> {
   }
   
   // Always clear the cache
-  storeCache.store = null;
-  initPromise = null;
-}
\ No newline at end of file
+  storeCache.clear();
+  initPromises.clear();
+  resetCircuitBreakers();
+  resetGenerations();
+  await closeLocalCache();
+}
@@ -0,0 +1,293 @@
+/*
+ * @Description: Cache tag and cacheName indexes
+ * @License: BSD (3-Clause)
+ * @Copyright (c): <richenlin(at)gmail.com>
+ */
+import { Helper } from "koatty_lib";
+import { DefaultLogger as logger } from "koatty_logger";
+import { CacheStore } from "koatty_store";
+import { callStoreCommand, hashCacheKey } from "./utils";
+import { getCacheConfig } from "./config";
+
+/**
+ * Cache tag, a static string or a function of the method arguments
+ */
+export type CacheTag = string | ((args: any[]) => string | string[]);
+
+// cacheNames whose entries are recorded in the cacheName index, see indexCacheName
+const indexedNames = new Set<string>();
+
+// new members added to each index since it was last pruned
+const addedMembers = new Map<string, number>();
+
+// the expired members of an index are pruned after this many new members
+const pruneInterval = 1000;
+
+/**
+ * Prefix of the index keys, with the namespace of KoattyCached options
+ *
+ * @returns {string}
+ */
+function getIndexPrefix(): string {
+  const namespace = getCacheConfig().namespace;
+  return Helper.isEmpty(namespace) ? "koatty_cacheable" : `koatty_cacheable:${namespace}`;
+}
+
+/**
+ * Index key of the entries under a cacheName
+ *
+ * @param cacheName
+ * @returns {string}
+ */
+export function getNameIndexKey(cacheName: string): string {
+  return `${getIndexPrefix()}:name:${cacheName}`;
+}
+
+/**
+ * Index key of the entries with a tag
+ *
+ * @param tag
+ * @returns {string}
+ */
+export function getTagIndexKey(tag: string): string {
+  return `${getIndexPrefix()}:tag:${tag}`;
+}
+
+/**
+ * Key of the generation counter of a cacheName
+ *
+ * @param cacheName
+ * @returns {string}
+ */
+export function getGenerationKey(cacheName: string): string {
+  return `${getIndexPrefix()}:gen:${cacheName}`;
+}
+
+/**
+ * Key of the version counter of an entry, a cacheName or a tag, used by the consistency mode
+ *
+ * @param type "key", "name" or "tag"
+ * @param name readable key, cacheName or tag
+ * @returns {string}
+ */
+export function getVersionKey(type: "key" | "name" | "tag", name: string): string {
+  return `${getIndexPrefix()}:ver:${type}:${type === "key" ? hashCacheKey(name) : name}`;
+}
+
+/**
+ * Key of the hash of the durable delayed deletions
+ *
+ * @returns {string}
+ */
+export function getDeletionQueueKey(): string {
+  return `${getIndexPrefix()}:deletion`;
+}
+
+/**
+ * Resolve the tags with the method arguments
+ *
+ * @param tags
+ * @param props method arguments
+ * @returns {string[]}
+ */
+export function resolveTags(tags: CacheTag[], props: any[]): string[] {
+  const res: string[] = [];
+  (tags || []).forEach(tag => {
+    const value = Helper.isFunction(tag) ? tag(props) : tag;
+    (Array.isArray(value) ? value : [value]).forEach(t => {
+      if (!Helper.isEmpty(t) && !res.includes(t)) {
+        res.push(t);
+      }
+    });
+  });
+  return res;
+}
+
+/**
+ * Record the entries of the cacheName in the cacheName index, which CacheEvict with allEntries,
+ * CacheManager.evictAll and the admin purge read. Other cacheNames are not indexed,
+ * so that their writes do not grow an index nobody reads.
+ *
+ * @param cacheName
+ */
+export function indexCacheName(cacheName: string) {
+  indexedNames.add(cacheName);
+}
+
+/**
+ * Whether the entries of the cacheName are recorded in the cacheName index
+ *
+ * @param cacheName
+ * @returns {boolean}
+ */
+export function isNameIndexed(cacheName: string): boolean {
+  return indexedNames.has(cacheName) || (getCacheConfig().indexedNames || []).includes(cacheName);
+}
+
+/**
+ * Record the readable cache key in the cacheName index, when the cacheName is indexed, and the tag indexes.
+ * The index expiry is only extended, never shortened, and removed for entries without expiry.
+ * The members whose entries expired are pruned regularly.
+ *
+ * @param store
+ * @param cacheName
+ * @param key readable cache key
+ * @param tags resolved tags
+ * @param ttl ttl of the entry, seconds, -1 without expiry
+ */
+export async function indexCacheKey(store: CacheStore, cacheName: string, key: string,
+  tags: string[], ttl: number): Promise<void> {
+  const indexKeys = tags.map(getTagIndexKey);
+  if (isNameIndexed(cacheName)) {
+    indexKeys.unshift(getNameIndexKey(cacheName));
+  }
+  await Promise.all(indexKeys.map(async (indexKey) => {
+    // -2 when the index does not exist, -1 when it is kept without expiry
+    let current: number = await store.ttl(indexKey);
+    const added = await store.sadd(indexKey, key).catch(async () => {
+      // the memory store can fail to reuse an expired set, recreate it
+      await store.del(indexKey);
+      current = -2;
+      return store.sadd(indexKey, key);
+    });
+    if (ttl < 0) {
+      if (current !== -1) {
+        await callStoreCommand(store, "persist", indexKey);
+      }
+    } else if (current === -2 || (current >= 0 && current < ttl)) {
+      await store.expire(indexKey, ttl);
+    }
+    if (added > 0) {
+      countMember(store, indexKey);
+    }
+  }));
+}
+
+/**
+ * Count a new member of the index, and prune the index in background every pruneInterval members
+ *
+ * @param store
+ * @param indexKey
+ */
+function countMember(store: CacheStore, indexKey: string) {
+  const count = (addedMembers.get(indexKey) || 0) + 1;
+  if (count < pruneInterval) {
+    addedMembers.set(indexKey, count);
+    return;
+  }
+  addedMembers.delete(indexKey);
+  pruneIndex(store, indexKey).catch((e: Error) => {
+    logger.error("Cache index error:" + e.message);
+  });
+}
+
+/**
+ * Remove the members whose entries expired from the index
+ *
+ * @param store
+ * @param indexKey
+ * @returns the number of removed members
+ */
+export async function pruneIndex(store: CacheStore, indexKey: string): Promise<number> {
+  const members: string[] = await store.smembers(indexKey);
+  const expired: string[] = [];
+  await Promise.all(members.map(async (k) => {
+    if (!(await store.exists(hashCacheKey(k)))) {
+      expired.push(k);
+    }
+  }));
+  await Promise.all(expired.map(k => store.srem(indexKey, k)));
+  return expired.length;
+}
+
+/**
+ * Delete all entries under a cacheName.
+ * When a prefix is given, only entries equal to it or starting with `${prefix}:` are deleted.
+ *
+ * @param store
+ * @param cacheName
+ * @param prefix readable key prefix
+ * @returns the deleted readable keys
+ */
+export async function evictEntries(store: CacheStore, cacheName: string, prefix?: string): Promise<string[]> {
+  if (Helper.isEmpty(prefix)) {
+    return evictIndexed(store, cacheName, () => true, true);
+  }
+  return evictIndexed(store, cacheName, k => k === prefix || k.startsWith(`${prefix}:`));
+}
+
+/**
+ * Delete the entries of the readable key in every scope, the scope follows the key name
+ * as in getScopeKeyName, e.g. "config:@tenantA:name:theme" for "config:name:theme".
+ * With allEntries, the entries whose key starts with the readable key are deleted in every scope.
+ * All scoped entries of the cacheName are deleted when the key does not start with the key name.
+ *
+ * @param store
+ * @param cacheName
+ * @param keyName the cacheName with namespace, version and generation
+ * @param rawKey readable cache key without scope
+ * @param allEntries
+ * @returns the deleted readable keys
+ */
+export async function evictScopedEntries(store: CacheStore, cacheName: string, keyName: string, rawKey: string,
+  allEntries?: boolean): Promise<string[]> {
+  const scoped = `${keyName}:@`;
+  // the params part of the key, null for the keys of a custom key generator
+  const target = rawKey.startsWith(keyName) ? rawKey.slice(keyName.length) : null;
+  return evictIndexed(store, cacheName, k => {
+    if (!k.startsWith(scoped)) {
+      return false;
+    }
+    const rest = k.slice(scoped.length);
+    const suffix = rest.includes(":") ? rest.slice(rest.indexOf(":")) : "";
+    return target === null || suffix === target ||
+      (!!allEntries && (target === "" || suffix.startsWith(`${target}:`)));
+  });
+}
+
+/**
+ * Delete the entries of the cacheName index selected by the filter
+ *
+ * @param store
+ * @param cacheName
+ * @param filter selects the readable keys
+ * @param [all] all entries are selected, the index is deleted
+ * @returns the deleted readable keys
+ */
+async function evictIndexed(store: CacheStore, cacheName: string, filter: (key: string) => boolean,
+  all = false): Promise<string[]> {
+  if (!isNameIndexed(cacheName)) {
+    logger.Warn(`Cache entries of ${cacheName} are not indexed and cannot be evicted at once, ` +
+      `add ${cacheName} to the indexedNames of KoattyCached options.`);
+    return [];
+  }
+  const indexKey = getNameIndexKey(cacheName);
+  const members: string[] = await store.smembers(indexKey);
+  const keys = members.filter(filter);
+  await Promise.all(keys.map(k => store.del(hashCacheKey(k))));
+  if (all) {
+    await store.del(indexKey);
+  } else {
+    await Promise.all(keys.map(k => store.srem(indexKey, k)));
+  }
+  return keys;
+}
+
+/**
+ * Delete all entries with the tags
+ *
+ * @param store
+ * @param tags resolved tags
+ * @returns the deleted readable keys
+ */
+export async function evictTags(store: CacheStore, tags: string[]): Promise<string[]> {
+  const keys: string[] = [];
+  await Promise.all(tags.map(async (tag) => {
+    const indexKey = getTagIndexKey(tag);
+    const members: string[] = await store.smembers(indexKey);
+    await Promise.all(members.map(k => store.del(hashCacheKey(k))));
+    await store.del(indexKey);
+    keys.push(...members);
+  }));
+  return keys;
+}
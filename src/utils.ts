@@ -1,4 +1,3 @@
-/* eslint-disable @typescript-eslint/no-unused-vars */
 /*
  * @Description: 
  * @Usage: 
@@ -10,83 +9,232 @@
  */
 
 import { Helper } from "koatty_lib";
+import { CacheStore } from "koatty_store";
 
 const longKey = 128;
 
 /**
- * Extract parameter names from function signature
+ * Extract parameter names from function signature.
+ * The parameters are split at the top-level commas, so default values with commas or parentheses are kept whole.
+ * Destructured parameters cannot be named and keep their position with an empty string.
  * @param func The function to extract parameters from
- * @returns Array of parameter names
+ * @returns Array of parameter names, "" for the parameters without a name
  */
 export function getArgs(func: (...args: any[]) => any): string[] {
   try {
-    // Match function parameters in parentheses
-    const args = func.toString().match(/.*?\(([^)]*)\)/);
-    if (args && args.length > 1) {
-      // Split parameters into array and clean them
-      return args[1].split(",").map(function (a) {
-        // Remove multi-line comments /* ... */ and single-line comments //
-        const param = a.replace(/\/\*[\s\S]*?\*\//g, "").replace(/\/\/.*$/gm, "").trim();
-        // Extract parameter name (before : or = or end of string)
-        const match = param.match(/^(\w+)/);
-        return match ? match[1] : "";
-      }).filter(function (ae) {
-        // Filter out empty strings
-        return ae;
-      });
+    const source = func.toString();
+    const start = source.indexOf("(");
+    if (start === -1) {
+      return [];
     }
-    return [];
-  } catch (error) {
+    const segments = splitParams(source, start + 1);
+    // Trailing comma or no parameter
+    if (segments.length > 0 && segments[segments.length - 1].trim() === "") {
+      segments.pop();
+    }
+    return segments.map(function (a) {
+      // Remove multi-line comments /* ... */ and single-line comments //
+      const param = a.replace(/\/\*[\s\S]*?\*\//g, "").replace(/\/\/.*$/gm, "").trim();
+      // Extract parameter name (before : or = or end of string), rest parameters included
+      const match = param.match(/^(?:\.\.\.)?([A-Za-z_$][\w$]*)/);
+      return match ? match[1] : "";
+    });
+  } catch {
     // Return empty array if parsing fails
     return [];
   }
 }
 
 /**
- * Get parameter indexes based on parameter names
+ * Split the parameter list at the top-level commas, up to its closing parenthesis
+ * @param source function source
+ * @param start index after the opening parenthesis
+ * @returns parameter sources
+ */
+function splitParams(source: string, start: number): string[] {
+  const segments: string[] = [];
+  let depth = 0;
+  let segmentStart = start;
+  for (let i = start; i < source.length; i++) {
+    const char = source[i];
+    if (char === "\"" || char === "'" || char === "`") {
+      // Skip string literals
+      for (i++; i < source.length && source[i] !== char; i++) {
+        if (source[i] === "\\") {
+          i++;
+        }
+      }
+    } else if (char === "/" && (source[i + 1] === "*" || source[i + 1] === "/")) {
+      // Skip comments
+      const end = source[i + 1] === "*" ? source.indexOf("*/", i + 2) + 1 : source.indexOf("\n", i + 2);
+      i = end > 0 ? end : source.length;
+    } else if (char === "(" || char === "[" || char === "{") {
+      depth++;
+    } else if (char === "," && depth === 0) {
+      segments.push(source.slice(segmentStart, i));
+      segmentStart = i + 1;
+    } else if (char === ")" || char === "]" || char === "}") {
+      if (depth === 0) {
+        segments.push(source.slice(segmentStart, i));
+        return segments;
+      }
+      depth--;
+    }
+  }
+  return [];
+}
+
+/**
+ * Get parameter indexes based on parameter names or indexes.
+ * For path expressions such as "query.userId" or "1.id" the index of the root parameter is returned.
  * @param funcParams Function parameter names
- * @param params Target parameter names to find indexes for
+ * @param params Target parameter names or indexes to find indexes for
  * @returns Array of parameter indexes (-1 if not found)
  */
-export function getParamIndex(funcParams: string[], params: string[]): number[] {
-  return params.map(param => funcParams.indexOf(param));
+export function getParamIndex(funcParams: string[], params: (string | number)[]): number[] {
+  return params.map(param => {
+    const root = String(param).split(".")[0];
+    return /^\d+$/.test(root) ? Number(root) : funcParams.indexOf(root);
+  });
 }
 
 /**
- * Generate cache key based on cache name and parameters
+ * Build the readable cache key before hashing
  * @param cacheName base cache name
  * @param paramIndexes parameter indexes
  * @param paramNames parameter names
  * @param props method arguments
- * @returns generated cache key
+ * @returns readable cache key
  */
-export function generateCacheKey(cacheName: string, paramIndexes: number[], paramNames: string[], props: any[]): string {
+export function buildCacheKey(cacheName: string, paramIndexes: number[], paramNames: string[], props: any[]): string {
   let key = cacheName;
   for (let i = 0; i < paramIndexes.length; i++) {
     const paramIndex = paramIndexes[i];
-    if (paramIndex >= 0 && props[paramIndex] !== undefined) {
-      key += `:${paramNames[i]}:${Helper.toString(props[paramIndex])}`;
+    if (paramIndex < 0) {
+      continue;
+    }
+    const dot = paramNames[i].indexOf(".");
+    const value = dot < 0 ? props[paramIndex] : getByPath(props[paramIndex], paramNames[i].slice(dot + 1));
+    if (value !== undefined) {
+      key += `:${paramNames[i]}:${keySegment(value)}`;
+    }
+  }
+  return key;
+}
+
+/**
+ * Build the readable cache key from named values, in the same format as buildCacheKey.
+ * The values are taken in the order of the keys, undefined values are skipped.
+ * Objects list integer-like keys such as "1" first, pass [name, value] pairs to keep another order.
+ * @param cacheName cache name
+ * @param params values by parameter name, e.g. { id: 1 }, { "query.userId": 1 } or [["id", 1], ["1", "q"]]
+ * @returns readable cache key
+ */
+export function buildParamsKey(cacheName: string, params: Record<string, any> | [string, any][] = {}): string {
+  let key = cacheName;
+  (Array.isArray(params) ? params : Object.entries(params)).forEach(([name, value]) => {
+    if (value !== undefined) {
+      key += `:${name}:${keySegment(value)}`;
     }
+  });
+  return key;
+}
+
+/**
+ * Convert an argument to a key segment, objects are hashed by their canonical form
+ * @param value argument value
+ * @returns key segment
+ */
+function keySegment(value: any): string {
+  if (value === null || typeof value !== "object") {
+    return Helper.toString(value);
+  }
+  if (Helper.isDate(value)) {
+    return value.toISOString();
+  }
+  return Helper.murmurHash(stableStringify(value));
+}
+
+/**
+ * Serialize a value to a canonical string, object keys are sorted so that
+ * equivalent values always give the same result
+ * @param value value to serialize
+ * @returns canonical string
+ */
+export function stableStringify(value: any): string {
+  switch (typeof value) {
+    case "undefined":
+    case "function":
+    case "symbol":
+      return "undefined";
+    case "bigint":
+      return `${value}n`;
+    case "number":
+      return Number.isFinite(value) ? JSON.stringify(value) : String(value);
+    case "string":
+    case "boolean":
+      return JSON.stringify(value);
+  }
+  if (value === null) {
+    return "null";
+  }
+  if (Helper.isDate(value)) {
+    return `Date(${value.getTime()})`;
+  }
+  if (Buffer.isBuffer(value)) {
+    return `Buffer(${value.toString("base64")})`;
+  }
+  if (Helper.isMap(value)) {
+    const entries = Array.from(value.entries()).map(([k, v]) => `${stableStringify(k)}:${stableStringify(v)}`);
+    return `Map{${entries.sort().join(",")}}`;
   }
+  if (Helper.isSet(value)) {
+    return `Set[${Array.from(value.values()).map(stableStringify).sort().join(",")}]`;
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(",")}]`;
+  }
+  const keys = Object.keys(value).filter(k => value[k] !== undefined).sort();
+  return `{${keys.map(k => `${JSON.stringify(k)}:${stableStringify(value[k])}`).join(",")}}`;
+}
+
+/**
+ * Get the key used in the store, long keys are hashed
+ * @param key readable cache key
+ * @returns store key
+ */
+export function hashCacheKey(key: string): string {
   return key.length > longKey ? Helper.murmurHash(key) : key;
 }
 
 /**
- * Create a delay promise
- * @param ms Delay time in milliseconds
- * @returns Promise that resolves after the specified delay
+ * Get a nested property by a dotted path such as "data.user.id"
+ * @param obj source object
+ * @param path dotted property path
+ * @returns the property value, undefined if any part of the path is missing
  */
-function delay(ms: number): Promise<void> {
-  return new Promise(resolve => setTimeout(resolve, ms));
+export function getByPath(obj: any, path: string): any {
+  return path.split(".").reduce((cur, k) => (cur === null || cur === undefined) ? undefined : cur[k], obj);
+}
+
+/**
+ * Call a command of the store client that CacheStore does not expose, with the key prefix of the store
+ * @param store cache store
+ * @param command client command, e.g. "persist"
+ * @param key cache key
+ * @param args other arguments of the command
+ * @returns Promise of the command result
+ */
+export function callStoreCommand(store: CacheStore, command: string, key: string, ...args: any[]): Promise<any> {
+  const prefix = (store.options && store.options.keyPrefix) || "";
+  return (<any>store).wrap(command, [`${prefix}${key}`, ...args]);
 }
 
 /**
- * Execute a function after a specified delay
- * @param fn Function to execute
+ * Create a delay promise
  * @param ms Delay time in milliseconds
- * @returns Promise that resolves with the function result
+ * @returns Promise that resolves after the specified delay
  */
-export async function asyncDelayedExecution(fn: () => any, ms: number): Promise<any> {
-  await delay(ms);
-  return fn();
-}
\ No newline at end of file
+export function delay(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
@@ -0,0 +1,111 @@
+/*
+ * @Description: Cache versioning, key namespace and generations
+ * @License: BSD (3-Clause)
+ * @Copyright (c): <richenlin(at)gmail.com>
+ */
+import { Helper } from "koatty_lib";
+import { DefaultLogger as logger } from "koatty_logger";
+import { CacheStore } from "koatty_store";
+import { getCacheConfig } from "./config";
+import { getGenerationKey } from "./tags";
+import { getScopedKey, getStore } from "./entry";
+
+// generations read from the stores are reused for this long, milliseconds
+const generationTtl = 1000;
+
+// generations by scoped cacheName
+const generations = new Map<string, { value: number; expire: number }>();
+
+/**
+ * Get the generation of the cacheName, 0 until BumpCacheVersion is called.
+ * The value read from the store is reused for a second, so a bump on another node
+ * takes effect within a second. When the store fails, the last known value is used.
+ *
+ * @export
+ * @param {CacheStore} store
+ * @param {string} storeName
+ * @param {string} cacheName
+ * @returns {*}  {Promise<number>}
+ */
+export async function getGeneration(store: CacheStore, storeName: string, cacheName: string): Promise<number> {
+  const scopedName = getScopedKey(storeName, cacheName);
+  const cached = generations.get(scopedName);
+  if (cached && cached.expire > Date.now()) {
+    return cached.value;
+  }
+  try {
+    const value = Helper.toNumber(await store.get(getGenerationKey(cacheName))) || 0;
+    generations.set(scopedName, { value, expire: Date.now() + generationTtl });
+    return value;
+  } catch (e) {
+    logger.error("Cache generation error:" + e.message);
+    return cached ? cached.value : 0;
+  }
+}
+
+/**
+ * Get the name the cache keys of the cacheName start with, see formatKeyName
+ *
+ * @export
+ * @param {CacheStore} store
+ * @param {string} storeName
+ * @param {string} cacheName
+ * @param {(string | number)} [version]
+ * @returns {*}  {Promise<string>}
+ */
+export async function getKeyName(store: CacheStore, storeName: string, cacheName: string,
+  version?: string | number): Promise<string> {
+  return formatKeyName(cacheName, version, await getGeneration(store, storeName, cacheName));
+}
+
+/**
+ * Format the name the cache keys of the cacheName start with,
+ * the cacheName prefixed with the namespace and followed by the version and the generation when set.
+ * e.g. "app:user:v2:g3"
+ *
+ * @export
+ * @param {string} cacheName
+ * @param {(string | number)} [version]
+ * @param {number} [generation]
+ * @returns {*}  {string}
+ */
+export function formatKeyName(cacheName: string, version?: string | number, generation = 0): string {
+  const namespace = getCacheConfig().namespace;
+  let keyName = Helper.isEmpty(namespace) ? cacheName : `${namespace}:${cacheName}`;
+  if (!Helper.isEmpty(version)) {
+    keyName += `:v${version}`;
+  }
+  if (generation > 0) {
+    keyName += `:g${generation}`;
+  }
+  return keyName;
+}
+
+/**
+ * Invalidate all entries of the cacheName at once by incrementing its generation.
+ * The old entries are no longer read and expire with their timeout.
+ *
+ * @export
+ * @param {string} cacheName
+ * @param {string} [storeName] name of the store, default store when not set
+ * @returns {*}  {Promise<number>} the new generation, 0 when the store is not available
+ */
+export async function BumpCacheVersion(cacheName: string, storeName?: string): Promise<number> {
+  const store = await getStore(storeName);
+  if (!store) {
+    logger.Warn(`Cache version of ${cacheName} not bumped, the cache store is not available.`);
+    return 0;
+  }
+  const value = await store.incr(getGenerationKey(cacheName));
+  generations.set(getScopedKey(storeName, cacheName), { value, expire: Date.now() + generationTtl });
+  return value;
+}
+
+/**
+ * Forget the generations read from the stores
+ *
+ * @export
+ */
+export function resetGenerations() {
+  generations.clear();
+}
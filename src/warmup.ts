@@ -0,0 +1,178 @@
+/*
+ * @Description: Cache warm-up from the CacheAble registry
+ * @License: BSD (3-Clause)
+ * @Copyright (c): <richenlin(at)gmail.com>
+ */
+import { IOCContainer } from "koatty_container";
+import { DefaultLogger as logger } from "koatty_logger";
+import { CacheTimeout } from "./entry";
+import { Serializer } from "./serializer";
+
+/**
+ * A method decorated with CacheAble
+ *
+ * @export
+ * @interface CacheRegistryItem
+ */
+export interface CacheRegistryItem {
+  // the decorated class
+  target: new (...args: any[]) => any;
+  className: string;
+  methodName: string;
+  cacheName: string;
+  params: string[];
+  // version of the cached data
+  version?: string | number;
+  // cache validity period, seconds
+  timeout: CacheTimeout;
+  // serializer of the cached value, the global one when not set
+  serializer?: Serializer;
+  // name of the store, default store when not set
+  store?: string;
+}
+
+/**
+ * Argument sets of the warm-up, or a function returning them
+ */
+export type CacheWarmupArgs = any[][] | (() => any[][] | Promise<any[][]>);
+
+/**
+ * Options of the cache warm-up
+ *
+ * @export
+ * @interface CacheWarmupOpt
+ */
+export interface CacheWarmupOpt {
+  // max number of methods executed at the same time, default 4
+  concurrency?: number;
+  // time budget of the warm-up, milliseconds, default 30000
+  timeout?: number;
+}
+
+/**
+ * Result of the cache warm-up
+ *
+ * @export
+ * @interface CacheWarmupResult
+ */
+export interface CacheWarmupResult {
+  // number of argument sets
+  total: number;
+  // executed successfully
+  warmed: number;
+  // executed with an error
+  failed: number;
+  // not started within the time budget, or without instance
+  skipped: number;
+}
+
+// registry of the CacheAble methods
+const registry: CacheRegistryItem[] = [];
+
+// warm-up arguments by class and method
+const warmups = new Map<CacheRegistryItem["target"], Map<string, CacheWarmupArgs>>();
+
+/**
+ * Add a CacheAble method to the registry
+ *
+ * @export
+ * @param {CacheRegistryItem} item
+ */
+export function registerCacheAble(item: CacheRegistryItem) {
+  registry.push(item);
+}
+
+/**
+ * Get all methods decorated with CacheAble
+ *
+ * @export
+ * @returns {*}  {CacheRegistryItem[]}
+ */
+export function GetCacheRegistry(): CacheRegistryItem[] {
+  return [...registry];
+}
+
+/**
+ * Pre-populate the cache of this CacheAble method with the argument sets
+ * when the cache store is ready, enabled by the warmup option of KoattyCached.
+ *
+ * @export
+ * @param {CacheWarmupArgs} args argument sets, or a function returning them
+ * e.g:
+ * [["hot-id-1"], ["hot-id-2"]]
+ * @returns {MethodDecorator}
+ */
+export function CacheWarmup(args: CacheWarmupArgs): MethodDecorator {
+  return (target: any, methodName: string) => {
+    const clazz = target.constructor;
+    if (!warmups.has(clazz)) {
+      warmups.set(clazz, new Map());
+    }
+    warmups.get(clazz).set(methodName, args);
+  };
+}
+
+/**
+ * Execute the CacheWarmup methods with their argument sets, with limited concurrency.
+ * Argument sets not started within the time budget are skipped,
+ * the methods still running at the deadline are not awaited.
+ *
+ * @export
+ * @param {CacheWarmupOpt} [opt]
+ * @returns {*}  {Promise<CacheWarmupResult>}
+ */
+export async function RunCacheWarmup(opt: CacheWarmupOpt = {}): Promise<CacheWarmupResult> {
+  const { concurrency, timeout } = { ...{ concurrency: 4, timeout: 30000 }, ...opt };
+  const deadline = Date.now() + timeout;
+  const result: CacheWarmupResult = { total: 0, warmed: 0, failed: 0, skipped: 0 };
+
+  const tasks: (() => Promise<any>)[] = [];
+  for (const item of registry) {
+    const args = warmups.has(item.target) ? warmups.get(item.target).get(item.methodName) : undefined;
+    if (!args) {
+      continue;
+    }
+    let argSets: any[][];
+    try {
+      argSets = typeof args === "function" ? await args() : args;
+    } catch (e) {
+      logger.error(`Cache warmup of ${item.className}.${item.methodName} error:` + e.message);
+      result.failed++;
+      continue;
+    }
+    const instance: any = IOCContainer.getInsByClass(item.target);
+    if (!instance) {
+      logger.Warn(`Cache warmup: instance of ${item.className} not found, ${item.methodName} is skipped.`);
+      result.total += argSets.length;
+      result.skipped += argSets.length;
+      continue;
+    }
+    argSets.forEach(a => tasks.push(() => instance[item.methodName](...a)));
+    result.total += argSets.length;
+  }
+
+  let started = 0;
+  const worker = async () => {
+    while (started < tasks.length && Date.now() < deadline) {
+      const task = tasks[started++];
+      try {
+        await task();
+        result.warmed++;
+      } catch (e) {
+        logger.error("Cache warmup error:" + e.message);
+        result.failed++;
+      }
+    }
+  };
+  let timer: NodeJS.Timeout;
+  await Promise.race([
+    Promise.all(Array.from({ length: Math.min(concurrency, tasks.length) }, worker)),
+    new Promise(resolve => {
+      timer = setTimeout(resolve, Math.max(deadline - Date.now(), 0));
+    }),
+  ]);
+  clearTimeout(timer);
+  result.skipped += tasks.length - started;
+  logger.Info(`Cache warmup: ${result.warmed} warmed, ${result.failed} failed, ${result.skipped} skipped of ${result.total}.`);
+  return result;
+}
@@ -9,7 +9,23 @@
  */
 
 import assert from "assert";
+import Koa from "koa";
+import request from "supertest";
+import { EventEmitter } from "events";
 import { GetCacheStore, CloseCacheStore } from "../src/store";
+import { createEnvelope, decodeEnvelope, encodeEnvelope } from "../src/envelope";
+import { stableStringify } from "../src/utils";
+import { CacheBusMessage, MemoryCacheBus } from "../src/bus";
+import { GetLocalCache, LocalCache, initLocalCache } from "../src/local";
+import { CacheEvent, CacheEvents, GetCacheMetrics, GetCacheStats, ResetCacheStats } from "../src/metrics";
+import { setCacheConfig } from "../src/config";
+import { processDeletions, startDeletionWorker, stopDeletionWorker } from "../src/deletion";
+import { pruneIndex } from "../src/tags";
+import {
+  BumpCacheVersion, CacheAble, CacheAdmin, CacheEvict, CacheKey, CacheManager, CacheResponse, EvictCacheScope, GetCacheRegistry,
+  GetCircuitState, HttpCacheOpt, KoattyCached, RunCacheWarmup, RunWithCacheContext
+} from "../src/index";
+import { IOCContainer } from "koatty_container";
 import { TestClass } from "./test";
 
 const clazz = new TestClass();
@@ -61,7 +77,7 @@ describe("Cache", () => {
     // 验证损坏的缓存已被删除或重新设置为有效值
     const cachedValue = await cs.get("run:name:invalid");
     // 由于缓存了方法返回值，缓存应该是字符串 "123" 或被删除后重新设置
-    assert.ok(cachedValue === "123" || cachedValue === null);
+    assert.ok(cachedValue === null || decodeEnvelope(cachedValue).v === "123");
   });
 
   test("Cache store unavailable", async () => {
@@ -140,7 +156,7 @@ describe("Cache Delayed Deletion", () => {
     // 验证缓存被正确设置
     const cs = await GetCacheStore();
     const cachedValue = await cs.get("concurrent:id:test2");
-    assert.ok(cachedValue === expectedResult || cachedValue === `"${expectedResult}"`);
+    assert.equal(decodeEnvelope(cachedValue).v, expectedResult);
   });
 
   test("Concurrent cache initialization", async () => {
@@ -210,6 +226,1937 @@ describe("Cache Delayed Deletion", () => {
     
     // 验证无参数缓存键格式
     const noParamsValue = await cs.get("noparams");
-    assert.ok(noParamsValue === "no-params" || noParamsValue === '"no-params"');
+    assert.equal(decodeEnvelope(noParamsValue).v, "no-params");
   });
-})
\ No newline at end of file
+})
+
+describe("Cache Single Flight", () => {
+  beforeAll(async () => {
+    await GetCacheStore({
+      type: "memory",
+      db: 0,
+      timeout: 30
+    });
+  });
+
+  afterAll(async () => {
+    await CloseCacheStore();
+  });
+
+  test("Concurrent misses execute the method once", async () => {
+    const testClazz = new TestClass();
+    const results = await Promise.all(Array(10).fill(0).map(() => testClazz.runSingleFlight("a")));
+
+    results.forEach(result => assert.deepEqual(result, { id: "a", name: "flight-a" }));
+    assert.equal(testClazz.flightCount, 1);
+
+    // 缓存写入后再次调用直接命中
+    assert.deepEqual(await testClazz.runSingleFlight("a"), { id: "a", name: "flight-a" });
+    assert.equal(testClazz.flightCount, 1);
+  });
+
+  test("Different keys are not coalesced", async () => {
+    const testClazz = new TestClass();
+    await Promise.all([testClazz.runSingleFlight("b"), testClazz.runSingleFlight("c")]);
+    assert.equal(testClazz.flightCount, 2);
+  });
+
+  test("Distributed lock waits for the holder to fill the cache", async () => {
+    const cs = await GetCacheStore();
+    const testClazz = new TestClass();
+    // 模拟其他进程持有锁
+    await cs.incr("dflight:id:x:lock");
+    setTimeout(async () => {
+      await cs.set("dflight:id:x", encodeEnvelope(createEnvelope({ id: "x", name: "from-other-process" }, 30)));
+      await cs.del("dflight:id:x:lock");
+    }, 100);
+
+    const res = await testClazz.runDistributedFlight("x");
+    assert.deepEqual(res, { id: "x", name: "from-other-process" });
+    assert.equal(testClazz.flightCount, 0);
+  });
+
+  test("Distributed lock is released after loading", async () => {
+    const cs = await GetCacheStore();
+    const testClazz = new TestClass();
+    const res = await testClazz.runDistributedFlight("y");
+    assert.deepEqual(res, { id: "y", name: "dflight-y" });
+    assert.equal(testClazz.flightCount, 1);
+    assert.equal(await cs.exists("dflight:id:y:lock"), 0);
+    assert.deepEqual(decodeEnvelope(await cs.get("dflight:id:y")).v, { id: "y", name: "dflight-y" });
+  });
+});
+
+describe("Cache Stale While Revalidate", () => {
+  beforeAll(async () => {
+    await GetCacheStore({
+      type: "memory",
+      db: 0,
+      timeout: 30
+    });
+  });
+
+  afterAll(async () => {
+    jest.restoreAllMocks();
+    await CloseCacheStore();
+  });
+
+  test("Serve stale value and refresh in background", async () => {
+    const testClazz = new TestClass();
+    assert.equal(await testClazz.runStale("a"), "a-1");
+    // 软过期前命中缓存
+    assert.equal(await testClazz.runStale("a"), "a-1");
+    assert.equal(testClazz.staleCount, 1);
+
+    // 超过 timeout，仍在 staleTtl 内
+    await new Promise(resolve => setTimeout(resolve, 1100));
+    assert.equal(await testClazz.runStale("a"), "a-1");
+    await new Promise(resolve => setTimeout(resolve, 50));
+    assert.equal(testClazz.staleCount, 2);
+    assert.equal(await testClazz.runStale("a"), "a-2");
+  });
+
+  test("Stored envelope records write time and soft expiry", async () => {
+    const cs = await GetCacheStore();
+    const testClazz = new TestClass();
+    const before = Date.now();
+    await testClazz.runStale("b");
+    await new Promise(resolve => setTimeout(resolve, 20));
+    const envelope = decodeEnvelope(await cs.get("stale:id:b"));
+    assert.equal(envelope.v, "b-1");
+    assert.ok(envelope.t >= before);
+    assert.equal(envelope.e, envelope.t + 1000);
+    // 硬过期时间为 timeout + staleTtl
+    assert.ok(await cs.ttl("stale:id:b") > 1);
+  });
+
+  test("Refresh ahead before soft expiry", async () => {
+    const testClazz = new TestClass();
+    assert.equal(await testClazz.runRefreshAhead("a"), "a-1");
+    await new Promise(resolve => setTimeout(resolve, 20));
+    // 随机数趋近 0 时必定提前刷新
+    jest.spyOn(Math, "random").mockReturnValue(Number.MIN_VALUE);
+    assert.equal(await testClazz.runRefreshAhead("a"), "a-1");
+    await new Promise(resolve => setTimeout(resolve, 50));
+    assert.equal(testClazz.staleCount, 2);
+    jest.spyOn(Math, "random").mockReturnValue(0.999999);
+    assert.equal(await testClazz.runRefreshAhead("a"), "a-2");
+    assert.equal(testClazz.staleCount, 2);
+  });
+});
+
+describe("Cache Null Result", () => {
+  beforeAll(async () => {
+    await GetCacheStore({
+      type: "memory",
+      db: 0,
+      timeout: 30
+    });
+  });
+
+  afterAll(async () => {
+    await CloseCacheStore();
+  });
+
+  test("Null result is cached with the miss sentinel", async () => {
+    const cs = await GetCacheStore();
+    const testClazz = new TestClass();
+    assert.strictEqual(await testClazz.runNullable("missing"), null);
+    await new Promise(resolve => setTimeout(resolve, 10));
+    assert.strictEqual(await testClazz.runNullable("missing"), null);
+    assert.equal(testClazz.nullCount, 1);
+
+    const envelope = decodeEnvelope(await cs.get("nullable:id:missing"));
+    assert.equal(envelope.n, "null");
+    // 空结果使用 nullTimeout
+    assert.ok(await cs.ttl("nullable:id:missing") <= 1);
+
+    assert.strictEqual(await testClazz.runNullable("undef"), undefined);
+    await new Promise(resolve => setTimeout(resolve, 10));
+    assert.strictEqual(await testClazz.runNullable("undef"), undefined);
+    assert.equal(testClazz.nullCount, 2);
+  });
+
+  test("Null result expires after nullTimeout", async () => {
+    const testClazz = new TestClass();
+    await testClazz.runNullable("expire");
+    await new Promise(resolve => setTimeout(resolve, 1100));
+    await testClazz.runNullable("expire");
+    assert.equal(testClazz.nullCount, 2);
+  });
+
+  test("Empty values are served from cache", async () => {
+    const testClazz = new TestClass();
+    const expected: any = { empty: "", zero: 0, list: [], obj: {} };
+    for (const id of Object.keys(expected)) {
+      await testClazz.runNullable(id);
+      await new Promise(resolve => setTimeout(resolve, 10));
+      assert.deepStrictEqual(await testClazz.runNullable(id), expected[id]);
+    }
+    assert.equal(testClazz.nullCount, 4);
+  });
+
+  test("Null result is not cached by default", async () => {
+    const cs = await GetCacheStore();
+    const testClazz = new TestClass();
+    await testClazz.runNoNull("a");
+    await new Promise(resolve => setTimeout(resolve, 10));
+    await testClazz.runNoNull("a");
+    assert.equal(testClazz.nullCount, 2);
+    assert.equal(await cs.get("nonull:id:a"), null);
+  });
+});
+
+describe("Cache Invalidation", () => {
+  const wait = (ms = 20) => new Promise(resolve => setTimeout(resolve, ms));
+
+  beforeAll(async () => {
+    await GetCacheStore({
+      type: "memory",
+      db: 0,
+      timeout: 30
+    });
+  });
+
+  afterAll(async () => {
+    await CloseCacheStore();
+  });
+
+  test("Evict entries by partial params prefix", async () => {
+    const cs = await GetCacheStore();
+    const testClazz = new TestClass();
+    await testClazz.searchProducts("book", "a");
+    await testClazz.searchProducts("book", "b");
+    await testClazz.searchProducts("bookcase", "a");
+    await wait();
+    assert.deepEqual((await cs.smembers("koatty_cacheable:name:productSearch")).sort(), [
+      "productSearch:category:book:keyword:a",
+      "productSearch:category:book:keyword:b",
+      "productSearch:category:bookcase:keyword:a",
+    ]);
+
+    await testClazz.updateCategory("book");
+    await wait();
+    assert.equal(await cs.get("productSearch:category:book:keyword:a"), null);
+    assert.equal(await cs.get("productSearch:category:book:keyword:b"), null);
+    // 前缀匹配按参数边界，不会误删 bookcase
+    assert.notEqual(await cs.get("productSearch:category:bookcase:keyword:a"), null);
+  });
+
+  test("Evict all entries under the cacheName", async () => {
+    const cs = await GetCacheStore();
+    const testClazz = new TestClass();
+    await testClazz.searchProducts("pen", "a");
+    await wait();
+    await testClazz.clearSearch();
+    await wait();
+    assert.equal(await cs.get("productSearch:category:pen:keyword:a"), null);
+    assert.equal(await cs.get("productSearch:category:bookcase:keyword:a"), null);
+    assert.equal(await cs.exists("koatty_cacheable:name:productSearch"), 0);
+  });
+
+  test("Evict entries by tag", async () => {
+    const cs = await GetCacheStore();
+    const testClazz = new TestClass();
+    await testClazz.searchProducts("food", "a");
+    await testClazz.searchProducts("toy", "a");
+    await wait();
+    assert.deepEqual(await cs.smembers("koatty_cacheable:tag:category:food"), ["productSearch:category:food:keyword:a"]);
+
+    await testClazz.updateProduct("1", "food");
+    await wait();
+    assert.equal(await cs.get("productSearch:category:food:keyword:a"), null);
+    assert.notEqual(await cs.get("productSearch:category:toy:keyword:a"), null);
+
+    await testClazz.searchProducts("food", "a");
+    assert.equal(testClazz.searchCount, 3);
+  });
+
+  test("Evict hashed long keys through the index", async () => {
+    const cs = await GetCacheStore();
+    const testClazz = new TestClass();
+    const keyword = "k".repeat(150);
+    await testClazz.searchProducts("long", keyword);
+    await wait();
+    assert.equal(await cs.get(`productSearch:category:long:keyword:${keyword}`), null);
+    await testClazz.searchProducts("long", keyword);
+    assert.equal(testClazz.searchCount, 1);
+
+    await testClazz.updateCategory("long");
+    await wait();
+    await testClazz.searchProducts("long", keyword);
+    assert.equal(testClazz.searchCount, 2);
+  });
+
+  test("Index only the cacheNames evicted at once", async () => {
+    const cs = await GetCacheStore();
+    const testClazz = new TestClass();
+    await testClazz.getUser("i1");
+    await wait();
+    assert.ok(await cs.get("user:id:i1"));
+    assert.equal(await cs.exists("koatty_cacheable:name:user"), 0);
+
+    // 清理已过期的成员
+    await testClazz.searchProducts("pruned", "a");
+    await testClazz.searchProducts("pruned", "b");
+    await wait();
+    await cs.del("productSearch:category:pruned:keyword:a");
+    assert.ok(await pruneIndex(cs, "koatty_cacheable:name:productSearch") >= 1);
+    const members = await cs.smembers("koatty_cacheable:name:productSearch");
+    assert.ok(!members.includes("productSearch:category:pruned:keyword:a"));
+    assert.ok(members.includes("productSearch:category:pruned:keyword:b"));
+  });
+});
+
+describe("Cache Put", () => {
+  beforeAll(async () => {
+    await GetCacheStore({
+      type: "memory",
+      db: 0,
+      timeout: 30
+    });
+  });
+
+  afterAll(async () => {
+    await CloseCacheStore();
+  });
+
+  test("CachePut writes the picked result for CacheAble", async () => {
+    const testClazz = new TestClass();
+    const res = await testClazz.updateUser("1", "tom");
+    assert.deepEqual(res, { code: 0, data: { id: "1", name: "tom" } });
+
+    assert.deepEqual(await testClazz.getUser("1"), { id: "1", name: "tom" });
+    assert.equal(testClazz.userCount, 0);
+  });
+
+  test("CachePut always executes and overwrites the entry", async () => {
+    const testClazz = new TestClass();
+    assert.deepEqual(await testClazz.getUser("2"), { id: "2", name: "from-db" });
+    await new Promise(resolve => setTimeout(resolve, 20));
+    assert.equal(await testClazz.renameUser("2", "jerry"), "jerry");
+    assert.equal(await testClazz.renameUser("2", "jerry2"), "jerry2");
+    assert.deepEqual(await testClazz.getUser("2"), { id: "2", name: "jerry2" });
+    assert.equal(testClazz.userCount, 1);
+  });
+});
+
+describe("Cache Key Generation", () => {
+  const wait = (ms = 20) => new Promise(resolve => setTimeout(resolve, ms));
+
+  beforeAll(async () => {
+    await GetCacheStore({
+      type: "memory",
+      db: 0,
+      timeout: 30
+    });
+  });
+
+  afterAll(async () => {
+    await CloseCacheStore();
+  });
+
+  test("Stable stringify ignores property order", () => {
+    assert.equal(stableStringify({ a: 1, b: { c: [1, "2"], d: undefined } }), stableStringify({ b: { c: [1, "2"] }, a: 1 }));
+    assert.notEqual(stableStringify({ a: 1 }), stableStringify({ a: "1" }));
+    assert.equal(stableStringify(new Set([2, 1])), stableStringify(new Set([1, 2])));
+    assert.notEqual(stableStringify([1, 2]), stableStringify([2, 1]));
+  });
+
+  test("Path expressions in params", async () => {
+    const cs = await GetCacheStore();
+    const testClazz = new TestClass();
+    await testClazz.getOrders({ userId: "u1", status: "paid", page: 1 });
+    await wait();
+    assert.notEqual(await cs.get("orders:query.userId:u1:query.status:paid"), null);
+    // page 不参与缓存键
+    await testClazz.getOrders({ page: 2, status: "paid", userId: "u1" });
+    assert.equal(testClazz.orderCount, 1);
+    // 缺失的路径不参与缓存键
+    await testClazz.getOrders({ userId: "u1" });
+    await wait();
+    assert.notEqual(await cs.get("orders:query.userId:u1"), null);
+  });
+
+  test("Object arguments are hashed canonically", async () => {
+    const testClazz = new TestClass();
+    await testClazz.searchOrders({ userId: "u1", filter: { status: "paid", min: 1 } });
+    await wait();
+    await testClazz.searchOrders({ filter: { min: 1, status: "paid" }, userId: "u1" });
+    assert.equal(testClazz.orderCount, 1);
+    await testClazz.searchOrders({ userId: "u2", filter: { status: "paid", min: 1 } });
+    assert.equal(testClazz.orderCount, 2);
+  });
+
+  test("Custom key generator", async () => {
+    const cs = await GetCacheStore();
+    const testClazz = new TestClass();
+    await testClazz.getOrdersCustom({ userId: "u9" });
+    await wait();
+    assert.notEqual(await cs.get("orderCustom:getOrdersCustom:u9"), null);
+    await testClazz.evictOrdersCustom("u9");
+    await wait();
+    assert.equal(await cs.get("orderCustom:getOrdersCustom:u9"), null);
+  });
+});
+
+describe("Cache Condition", () => {
+  const wait = (ms = 20) => new Promise(resolve => setTimeout(resolve, ms));
+
+  beforeAll(async () => {
+    await GetCacheStore({
+      type: "memory",
+      db: 0,
+      timeout: 30
+    });
+  });
+
+  afterAll(async () => {
+    await CloseCacheStore();
+  });
+
+  test("Condition bypasses the cache", async () => {
+    const testClazz = new TestClass();
+    await testClazz.runConditional("a");
+    await wait();
+    assert.equal((await testClazz.runConditional("a")).count, 1);
+    // forceRefresh 时跳过缓存，也不写入缓存
+    assert.equal((await testClazz.runConditional("a", true)).count, 2);
+    await wait();
+    assert.equal((await testClazz.runConditional("a")).count, 1);
+  });
+
+  test("Unless skips writing the result", async () => {
+    const cs = await GetCacheStore();
+    const testClazz = new TestClass();
+    await testClazz.runConditional("p1");
+    await wait();
+    assert.equal(await cs.get("cond:id:p1"), null);
+    await testClazz.runConditional("p1");
+    assert.equal(testClazz.condCount, 2);
+  });
+
+  test("Evict condition", async () => {
+    const cs = await GetCacheStore();
+    const testClazz = new TestClass();
+    await testClazz.runConditional("keep");
+    await wait();
+    await testClazz.evictConditional("keep");
+    await wait();
+    assert.notEqual(await cs.get("cond:id:keep"), null);
+  });
+
+  test("Evict before invocation when the method throws", async () => {
+    const cs = await GetCacheStore();
+    const testClazz = new TestClass();
+    await testClazz.runConditional("b");
+    await testClazz.runConditional("c");
+    await wait();
+
+    await assert.rejects(testClazz.failedUpdate("b"), /update failed/);
+    assert.equal(await cs.get("cond:id:b"), null);
+
+    // 默认在方法成功后才清除
+    await assert.rejects(testClazz.failedUpdateAfter("c"), /update failed/);
+    await wait();
+    assert.notEqual(await cs.get("cond:id:c"), null);
+  });
+});
+
+describe("Cache Local", () => {
+  const wait = (ms = 20) => new Promise(resolve => setTimeout(resolve, ms));
+  const bus = new MemoryCacheBus();
+
+  beforeAll(async () => {
+    initLocalCache({ max: 100, ttl: 10, bus });
+    await GetCacheStore({
+      type: "memory",
+      db: 0,
+      timeout: 30
+    });
+  });
+
+  afterAll(async () => {
+    await CloseCacheStore();
+  });
+
+  test("Hit served from the local cache", async () => {
+    const cs = await GetCacheStore();
+    const testClazz = new TestClass();
+    await testClazz.getProfile("1");
+    await wait();
+    assert.notEqual(GetLocalCache().get("profile:id:1"), undefined);
+    // 删除 L2 后仍由 L1 命中
+    await cs.del("profile:id:1");
+    assert.equal((await testClazz.getProfile("1")).count, 1);
+    assert.equal(testClazz.localCount, 1);
+  });
+
+  test("Local cache opt-out", async () => {
+    const cs = await GetCacheStore();
+    const testClazz = new TestClass();
+    await testClazz.getBalance("1");
+    await wait();
+    assert.equal(GetLocalCache().get("balance:id:1"), undefined);
+    await cs.del("balance:id:1");
+    await testClazz.getBalance("1");
+    assert.equal(testClazz.localCount, 2);
+  });
+
+  test("Evict broadcasts the invalidation", async () => {
+    const messages: CacheBusMessage[] = [];
+    bus.subscribe(message => messages.push(message));
+    const testClazz = new TestClass();
+    await testClazz.getProfile("2");
+    await wait();
+    await testClazz.updateProfile("2");
+    await wait();
+    assert.equal(GetLocalCache().get("profile:id:2"), undefined);
+    assert.ok(messages.some(m => m.keys.includes("profile:id:2")));
+  });
+
+  test("CacheManager.set broadcasts the invalidation", async () => {
+    const messages: CacheBusMessage[] = [];
+    bus.subscribe(message => messages.push(message));
+    await new CacheManager().set("profile", { id: "4" }, { id: "4", count: 0 });
+    assert.ok(messages.some(m => m.keys.includes("profile:id:4")));
+    // 本节点的 L1 保存新值
+    assert.notEqual(GetLocalCache().get("profile:id:4"), undefined);
+  });
+
+  test("Invalidation from another node", async () => {
+    const testClazz = new TestClass();
+    await testClazz.getProfile("3");
+    await wait();
+    assert.notEqual(GetLocalCache().get("profile:id:3"), undefined);
+    // 本节点自身的消息不会重复处理，其他节点的消息清除 L1
+    bus.publish({ source: "other-node", keys: ["profile:id:3"] });
+    assert.equal(GetLocalCache().get("profile:id:3"), undefined);
+  });
+
+  test("LocalCache is bounded", () => {
+    const local = new LocalCache({ max: 2, ttl: 10 });
+    local.set("a", "1");
+    local.set("b", "2");
+    local.get("a");
+    local.set("c", "3");
+    assert.equal(local.size, 2);
+    assert.equal(local.get("b"), undefined);
+    assert.equal(local.get("a"), "1");
+    assert.equal(local.get("c"), "3");
+  });
+});
+
+describe("Cache Metrics", () => {
+  const wait = (ms = 20) => new Promise(resolve => setTimeout(resolve, ms));
+
+  beforeAll(async () => {
+    await GetCacheStore({
+      type: "memory",
+      db: 0,
+      timeout: 30
+    });
+  });
+
+  afterAll(async () => {
+    setCacheConfig({ hooks: undefined });
+    await CloseCacheStore();
+  });
+
+  test("Hooks and events", async () => {
+    const events: string[] = [];
+    setCacheConfig({
+      hooks: {
+        onHit: e => events.push(`hit ${e.key}`),
+        onMiss: e => events.push(`miss ${e.key}`),
+        onSet: e => events.push(`set ${e.key}`),
+        onEvict: e => events.push(`evict ${e.key}`),
+      }
+    });
+    const listener = (e: CacheEvent) => events.push(`listener ${e.cacheName}`);
+    CacheEvents.on("hit", listener);
+
+    const testClazz = new TestClass();
+    await testClazz.getMetric("1");
+    await wait();
+    await testClazz.getMetric("1");
+    await testClazz.evictMetric("1");
+    await wait();
+    CacheEvents.off("hit", listener);
+
+    assert.deepEqual(events, [
+      "miss metric:id:1", "set metric:id:1", "hit metric:id:1", "listener metric", "evict metric:id:1"
+    ]);
+  });
+
+  test("Hook errors are ignored", async () => {
+    setCacheConfig({ hooks: { onMiss: () => { throw Error("hook failed"); } } });
+    const testClazz = new TestClass();
+    assert.deepEqual(await testClazz.getMetric("2"), { id: "2" });
+    setCacheConfig({ hooks: undefined });
+  });
+
+  test("Stats and Prometheus metrics", async () => {
+    ResetCacheStats();
+    const testClazz = new TestClass();
+    await testClazz.getMetric("3");
+    await wait();
+    await testClazz.getMetric("3");
+    await testClazz.getMetric("3");
+
+    const stats = GetCacheStats().metric;
+    assert.equal(stats.hits, 2);
+    assert.equal(stats.misses, 1);
+    assert.equal(stats.sets, 1);
+    assert.equal(stats.errors, 0);
+    assert.equal(stats.hitRatio, 2 / 3);
+
+    const metrics = GetCacheMetrics();
+    assert.ok(metrics.includes('# TYPE koatty_cache_hits_total counter'));
+    assert.ok(metrics.includes('koatty_cache_hits_total{cache="metric"} 2'));
+    assert.ok(metrics.includes('koatty_cache_misses_total{cache="metric"} 1'));
+    assert.ok(metrics.includes('koatty_cache_lookup_seconds_count{cache="metric"} 3'));
+  });
+});
+
+describe("Cache Named Stores", () => {
+  const wait = (ms = 20) => new Promise(resolve => setTimeout(resolve, ms));
+
+  beforeAll(async () => {
+    await GetCacheStore({
+      type: "memory",
+      db: 0,
+      timeout: 30
+    });
+  });
+
+  afterAll(async () => {
+    await CloseCacheStore();
+  });
+
+  test("Concurrent initialization of a named store", async () => {
+    const options = { type: "memory" as const, db: 1, timeout: 30 };
+    const stores = await Promise.all(Array(5).fill(0).map(() => GetCacheStore("reports", options)));
+    stores.forEach(s => assert.strictEqual(s, stores[0]));
+    assert.strictEqual(await GetCacheStore("reports"), stores[0]);
+    assert.notStrictEqual(await GetCacheStore(), stores[0]);
+  });
+
+  test("Decorators use the selected store", async () => {
+    const cs = await GetCacheStore();
+    const reports = await GetCacheStore("reports");
+    const testClazz = new TestClass();
+    await testClazz.getReport("1");
+    await wait();
+    assert.notEqual(await reports.get("report:id:1"), null);
+    assert.equal(await cs.get("report:id:1"), null);
+    assert.equal((await testClazz.getReport("1")).count, 1);
+
+    await testClazz.evictReport("1");
+    await wait();
+    assert.equal(await reports.get("report:id:1"), null);
+  });
+
+  test("Unknown store executes the method directly", async () => {
+    const testClazz = new TestClass();
+    await testClazz.getMissingStore("1");
+    await testClazz.getMissingStore("1");
+    assert.equal(testClazz.reportCount, 2);
+  });
+
+  test("Named stores from KoattyCached options", async () => {
+    await CloseCacheStore();
+    const app = new EventEmitter();
+    await KoattyCached({ type: "memory", stores: { reports: { type: "memory", db: 1, timeout: 60 } } }, app as any);
+    app.emit("appReady");
+    await wait();
+    assert.notEqual(await GetCacheStore(), null);
+    assert.notEqual(await GetCacheStore("reports"), null);
+  });
+
+  test("Close all stores", async () => {
+    await GetCacheStore("reports", { type: "memory", db: 1, timeout: 30 });
+    await CloseCacheStore();
+    assert.equal(await GetCacheStore("reports"), null);
+    assert.equal(await GetCacheStore(), null);
+  });
+});
+
+describe("Cache Circuit Breaker", () => {
+  const wait = (ms = 20) => new Promise(resolve => setTimeout(resolve, ms));
+  // 只让缓存数据的读取变慢，代数读取保持正常
+  const isGeneration = (key: string) => key.startsWith("koatty_cacheable:gen:");
+  const mockSlowGet = (cs: any) => {
+    const get = cs.get.bind(cs);
+    return jest.spyOn(cs, "get").mockImplementation((key: string): Promise<any> =>
+      isGeneration(key) ? get(key) : wait(200).then((): null => null));
+  };
+  const getCalls = (get: jest.SpyInstance) => get.mock.calls.filter(([key]) => !isGeneration(key)).length;
+
+  beforeAll(async () => {
+    await GetCacheStore({
+      type: "memory",
+      db: 0,
+      timeout: 30
+    });
+    setCacheConfig({ operationTimeout: 20, circuitBreaker: { threshold: 2, coolDown: 100 } });
+  });
+
+  afterAll(async () => {
+    setCacheConfig({ operationTimeout: undefined, circuitBreaker: undefined });
+    jest.restoreAllMocks();
+    await CloseCacheStore();
+  });
+
+  test("Slow store operations time out", async () => {
+    const cs = await GetCacheStore();
+    const get = mockSlowGet(cs);
+    const testClazz = new TestClass();
+    const start = Date.now();
+    assert.equal((await testClazz.getSlow("1")).count, 1);
+    assert.ok(Date.now() - start < 150);
+    assert.equal(getCalls(get), 1);
+    assert.equal(GetCircuitState(), "closed");
+    get.mockRestore();
+    await wait();
+  });
+
+  test("Open, half-open and close", async () => {
+    const cs = await GetCacheStore();
+    const get = mockSlowGet(cs);
+    const set = jest.spyOn(cs, "set").mockImplementation((): Promise<any> => wait(200).then((): string => "OK"));
+    const testClazz = new TestClass();
+    await testClazz.getSlow("2");
+    await testClazz.getSlow("2");
+    assert.equal(GetCircuitState(), "open");
+
+    // 熔断期间跳过缓存
+    await testClazz.getSlow("2");
+    assert.equal(getCalls(get), 2);
+
+    // 冷却后探测失败，重新熔断
+    await wait(120);
+    await testClazz.getSlow("2");
+    assert.equal(getCalls(get), 3);
+    assert.equal(GetCircuitState(), "open");
+
+    // 冷却后没有缓存操作的调用不占用探测
+    get.mockRestore();
+    set.mockRestore();
+    await wait(120);
+    await assert.rejects(testClazz.putSlowFailed("2"));
+    assert.equal(GetCircuitState(), "half-open");
+
+    // 探测成功，恢复
+    await testClazz.getSlow("2");
+    assert.equal(GetCircuitState(), "closed");
+    await wait();
+    const count = testClazz.slowCount;
+    await testClazz.getSlow("2");
+    assert.equal(testClazz.slowCount, count);
+  });
+});
+
+describe("Cache Manager", () => {
+  const wait = (ms = 20) => new Promise(resolve => setTimeout(resolve, ms));
+  const manager = new CacheManager();
+
+  beforeAll(async () => {
+    await GetCacheStore({
+      type: "memory",
+      db: 0,
+      timeout: 30
+    });
+  });
+
+  afterAll(async () => {
+    await CloseCacheStore();
+  });
+
+  test("Same keys as the decorators", async () => {
+    const testClazz = new TestClass();
+    const orders = await testClazz.getOrders({ userId: "m1", status: "paid", page: 1 });
+    await wait();
+    assert.equal(await manager.getKey("orders", { "query.userId": "m1", "query.status": "paid" }),
+      "orders:query.userId:m1:query.status:paid");
+    assert.deepEqual(await manager.get("orders", { "query.userId": "m1", "query.status": "paid" }), orders);
+    assert.equal(await manager.get("orders", { "query.userId": "m2" }), undefined);
+
+    // 超过 128 字符的键同样被哈希
+    const id = "x".repeat(200);
+    await manager.set("user", { id }, { id, name: "long" });
+    assert.deepEqual(await testClazz.getUser(id), { id, name: "long" });
+    assert.equal(testClazz.userCount, 0);
+  });
+
+  test("Ordered params with integer-like names", async () => {
+    const testClazz = new TestClass();
+    const res = await testClazz.getMixedKeyed("a", "b");
+    await wait();
+    // 对象的整数键排在前面，与装饰器的参数顺序不一致
+    assert.equal(await manager.getKey("mixedKeyed", { id: "a", 1: "b" }), "mixedKeyed:1:b:id:a");
+    assert.equal(await manager.getKey("mixedKeyed", [["id", "a"], ["1", "b"]]), "mixedKeyed:id:a:1:b");
+    assert.deepEqual(await manager.get("mixedKeyed", [["id", "a"], ["1", "b"]]), res);
+  });
+
+  test("Evict entries of the decorators", async () => {
+    // evictAll 需要为 cacheName 维护索引
+    setCacheConfig({ indexedNames: ["user"] });
+    const testClazz = new TestClass();
+    await testClazz.getUser("m1");
+    await testClazz.getUser("m2");
+    await wait();
+    await manager.evict("user", { id: "m1" });
+    await testClazz.getUser("m1");
+    await testClazz.getUser("m2");
+    assert.equal(testClazz.userCount, 3);
+
+    await wait();
+    await manager.evictAll("user");
+    await testClazz.getUser("m1");
+    await testClazz.getUser("m2");
+    assert.equal(testClazz.userCount, 5);
+    setCacheConfig({ indexedNames: undefined });
+  });
+
+  test("Wrap", async () => {
+    let calls = 0;
+    const fn = async () => ({ calls: ++calls });
+    assert.deepEqual(await manager.wrap("wrapped", { id: 1 }, fn, { timeout: 10 }), { calls: 1 });
+    assert.deepEqual(await manager.wrap("wrapped", { id: 1 }, fn, { timeout: 10 }), { calls: 1 });
+    assert.deepEqual(await manager.wrap("wrapped", { id: 2 }, fn), { calls: 2 });
+  });
+
+  test("Registered in IOCContainer", async () => {
+    const app = new EventEmitter();
+    await KoattyCached({ type: "memory" }, app as any);
+    assert.ok(IOCContainer.get("CacheManager") instanceof CacheManager);
+  });
+});
+
+describe("Cache Batch", () => {
+  const wait = (ms = 20) => new Promise(resolve => setTimeout(resolve, ms));
+
+  beforeAll(async () => {
+    await GetCacheStore({
+      type: "memory",
+      db: 0,
+      timeout: 30
+    });
+  });
+
+  afterAll(async () => {
+    jest.restoreAllMocks();
+    await CloseCacheStore();
+  });
+
+  test("Only missing ids are loaded", async () => {
+    const testClazz = new TestClass();
+    assert.deepEqual(await testClazz.getUsersByIds(["1", "2"]),
+      [{ id: "1", name: "user1" }, { id: "2", name: "user2" }]);
+    await wait();
+    assert.deepEqual(await testClazz.getUsersByIds(["3", "2"]),
+      [{ id: "3", name: "user3" }, { id: "2", name: "user2" }]);
+    assert.deepEqual(testClazz.batchCalls, [["1", "2"], ["3"]]);
+  });
+
+  test("Multi-get and input order", async () => {
+    const cs = await GetCacheStore();
+    const testClazz = new TestClass();
+    await testClazz.getUsersByIds(["4", "5", "6"]);
+    await wait();
+    const get = jest.spyOn(cs, "get");
+    const users = await testClazz.getUsersByIds(["6", "4", "5", "4"]);
+    assert.deepEqual(users.map((u: any) => u.id), ["6", "4", "5", "4"]);
+    assert.equal(get.mock.calls.length, 0);
+    assert.equal(testClazz.batchCalls.length, 1);
+    get.mockRestore();
+  });
+
+  test("Ids without result", async () => {
+    const testClazz = new TestClass();
+    assert.deepEqual(await testClazz.getUsersByIds(["7", "404"]), [{ id: "7", name: "user7" }]);
+    await wait();
+    await testClazz.getUsersByIds(["7", "404"]);
+    assert.deepEqual(testClazz.batchCalls, [["7", "404"], ["404"]]);
+  });
+
+  test("Entries shared with CacheAble", async () => {
+    const testClazz = new TestClass();
+    await testClazz.getUsersByIds(["8"]);
+    await testClazz.getBatchUser("9");
+    await wait();
+    assert.deepEqual(await testClazz.getBatchUser("8"), { id: "8", name: "user8" });
+    assert.deepEqual(await testClazz.getUsersByIds(["9", "8"]),
+      [{ id: "9", name: "user9" }, { id: "8", name: "user8" }]);
+    assert.deepEqual(testClazz.batchCalls, [["8"], ["9"]]);
+  });
+});
+
+describe("Cache Compression", () => {
+  const wait = (ms = 20) => new Promise(resolve => setTimeout(resolve, ms));
+
+  beforeAll(async () => {
+    await GetCacheStore({
+      type: "memory",
+      db: 0,
+      timeout: 30
+    });
+  });
+
+  afterAll(async () => {
+    setCacheConfig({ compress: undefined, maxSize: undefined });
+    await CloseCacheStore();
+  });
+
+  test("Payloads above the threshold are compressed", async () => {
+    const cs = await GetCacheStore();
+    const testClazz = new TestClass();
+    await testClazz.getLarge(10);
+    await testClazz.getLarge(5000);
+    await testClazz.getLargeBrotli(5000);
+    // 压缩在后台线程执行
+    await wait(200);
+    assert.ok(!(await cs.get("large:size:10")).startsWith("$kcz:"));
+    const gzipped = await cs.get("large:size:5000");
+    assert.ok(gzipped.startsWith("$kcz:gzip:"));
+    assert.ok(gzipped.length < 1000);
+    assert.ok((await cs.get("largeBrotli:size:5000")).startsWith("$kcz:brotli:"));
+
+    assert.equal((await testClazz.getLarge(5000)).data.length, 5000);
+    assert.equal((await testClazz.getLargeBrotli(5000)).data.length, 5000);
+    assert.equal(testClazz.largeCount, 3);
+  });
+
+  test("Compressed payloads are read without the option", async () => {
+    const cs = await GetCacheStore();
+    const testClazz = new TestClass();
+    setCacheConfig({ compress: true });
+    await testClazz.putLarge(1, "z".repeat(3000));
+    setCacheConfig({ compress: undefined });
+    assert.ok((await cs.get("large:size:1")).startsWith("$kcz:gzip:"));
+    assert.equal((await testClazz.getLarge(1)).data, "z".repeat(3000));
+    assert.equal(testClazz.largeCount, 0);
+  });
+
+  test("Unknown algorithms fail at decoration", async () => {
+    assert.throws(() => {
+      class ZstdComponent {
+        @CacheAble("zstd", { compress: <any>"zstd" })
+        async getValue() {
+          return 1;
+        }
+      }
+      return ZstdComponent;
+    }, /Unknown cache compression: zstd/);
+    assert.throws(() => CacheResponse({ compress: { algorithm: <any>"zstd" } }), /Unknown cache compression/);
+    const app: any = { use: (): void => undefined, once: (): void => undefined, on: (): void => undefined };
+    await assert.rejects(KoattyCached({ type: "memory", compress: <any>"zstd" }, app), /Unknown cache compression/);
+  });
+
+  test("Values above maxSize are not cached", async () => {
+    const cs = await GetCacheStore();
+    const testClazz = new TestClass();
+    await testClazz.getTooLarge(10);
+    await testClazz.getTooLarge(1000);
+    await wait();
+    assert.notEqual(await cs.get("tooLarge:size:10"), null);
+    assert.equal(await cs.get("tooLarge:size:1000"), null);
+    await testClazz.getTooLarge(1000);
+    assert.equal(testClazz.largeCount, 3);
+    assert.equal(GetCacheStats().tooLarge.oversized, 2);
+  });
+});
+
+describe("Cache Warmup", () => {
+  const wait = (ms = 20) => new Promise(resolve => setTimeout(resolve, ms));
+
+  beforeAll(async () => {
+    await GetCacheStore({
+      type: "memory",
+      db: 0,
+      timeout: 30
+    });
+  });
+
+  afterAll(async () => {
+    await CloseCacheStore();
+  });
+
+  test("Registry of the CacheAble methods", () => {
+    const item = GetCacheRegistry().find(i => i.methodName === "getHotCategory");
+    assert.deepEqual(item, {
+      target: TestClass,
+      className: "TestClass",
+      methodName: "getHotCategory",
+      cacheName: "hotCategory",
+      params: ["id"],
+      version: undefined,
+      timeout: 60,
+      serializer: undefined,
+      store: undefined,
+    });
+    assert.ok(GetCacheRegistry().some(i => i.methodName === "getUser" && i.cacheName === "user"));
+  });
+
+  test("Skipped without instance", async () => {
+    assert.deepEqual(await RunCacheWarmup(), { total: 5, warmed: 0, failed: 0, skipped: 5 });
+  });
+
+  test("Pre-populate the entries", async () => {
+    IOCContainer.reg(TestClass);
+    const instance: TestClass = IOCContainer.getInsByClass<any>(TestClass);
+    assert.deepEqual(await RunCacheWarmup({ concurrency: 2 }), { total: 5, warmed: 5, failed: 0, skipped: 0 });
+    assert.equal(instance.hotCount, 5);
+    await wait();
+    const cs = await GetCacheStore();
+    assert.notEqual(await cs.get("hot:id:h3"), null);
+    assert.notEqual(await cs.get("hotCategory:id:c2"), null);
+
+    const testClazz = new TestClass();
+    await testClazz.getHot("h1");
+    await testClazz.getHotCategory("c1");
+    assert.equal(testClazz.hotCount, 0);
+  });
+
+  test("Time budget", async () => {
+    const getHot = TestClass.prototype.getHot;
+    TestClass.prototype.getHot = async function (id: string) {
+      await wait(100);
+      return getHot.call(this, id);
+    };
+    const result = await RunCacheWarmup({ concurrency: 1, timeout: 50 });
+    TestClass.prototype.getHot = getHot;
+    assert.equal(result.total, 5);
+    assert.equal(result.warmed, 0);
+    assert.equal(result.skipped, 4);
+    await wait(100);
+  });
+});
+
+describe("Cache Versioning", () => {
+  const wait = (ms = 20) => new Promise(resolve => setTimeout(resolve, ms));
+  const manager = new CacheManager();
+
+  beforeAll(async () => {
+    await GetCacheStore({
+      type: "memory",
+      db: 0,
+      timeout: 30
+    });
+  });
+
+  afterAll(async () => {
+    setCacheConfig({ namespace: undefined });
+    await CloseCacheStore();
+  });
+
+  test("Version in the cache key", async () => {
+    const cs = await GetCacheStore();
+    const testClazz = new TestClass();
+    await testClazz.getVersioned("1");
+    await wait();
+    assert.notEqual(await cs.get("versioned:v2:id:1"), null);
+    assert.equal(await cs.get("versioned:id:1"), null);
+    assert.equal(await manager.getKey("versioned", { id: "1" }, { version: 2 }), "versioned:v2:id:1");
+
+    await testClazz.evictVersioned("1");
+    await wait();
+    assert.equal(await cs.get("versioned:v2:id:1"), null);
+  });
+
+  test("Namespace in the cache and index keys", async () => {
+    const cs = await GetCacheStore();
+    const testClazz = new TestClass();
+    setCacheConfig({ namespace: "app", indexedNames: ["user"] });
+    await testClazz.getUser("ns1");
+    await wait();
+    setCacheConfig({ namespace: undefined, indexedNames: undefined });
+    assert.notEqual(await cs.get("app:user:id:ns1"), null);
+    assert.equal(await cs.get("user:id:ns1"), null);
+    assert.deepEqual(await cs.smembers("koatty_cacheable:app:name:user"), ["app:user:id:ns1"]);
+  });
+
+  test("Bump the version", async () => {
+    const cs = await GetCacheStore();
+    const testClazz = new TestClass();
+    await testClazz.getVersioned("2");
+    await wait();
+    assert.equal((await testClazz.getVersioned("2")).count, testClazz.versionCount);
+    const count = testClazz.versionCount;
+
+    assert.equal(await BumpCacheVersion("versioned"), 1);
+    assert.equal((await testClazz.getVersioned("2")).count, count + 1);
+    await wait();
+    assert.notEqual(await cs.get("versioned:v2:g1:id:2"), null);
+    assert.equal(await manager.getKey("versioned", { id: "2" }, { version: 2 }), "versioned:v2:g1:id:2");
+    assert.equal((await testClazz.getVersioned("2")).count, count + 1);
+
+    // 清除时使用当前代数的键
+    await testClazz.evictVersioned("2");
+    await wait();
+    assert.equal(await cs.get("versioned:v2:g1:id:2"), null);
+    assert.equal(await BumpCacheVersion("versioned"), 2);
+  });
+});
+
+describe("Cache Delayed Deletion Reliability", () => {
+  const wait = (ms = 20) => new Promise(resolve => setTimeout(resolve, ms));
+  const queueKey = "koatty_cacheable:deletion";
+
+  beforeEach(async () => {
+    await GetCacheStore({
+      type: "memory",
+      db: 0,
+      timeout: 30
+    });
+  });
+
+  afterEach(async () => {
+    setCacheConfig({ durableDeletion: undefined });
+    jest.restoreAllMocks();
+    await CloseCacheStore();
+  });
+
+  test("Pending deletions are flushed on close", async () => {
+    const cs = await GetCacheStore();
+    const testClazz = new TestClass();
+    await testClazz.runDelayed("flush1");
+    await wait();
+    const del = jest.spyOn(cs, "del");
+    const start = Date.now();
+    await CloseCacheStore();
+    assert.ok(Date.now() - start < 1000);
+    assert.ok(del.mock.calls.some(([key]) => key === "delayed:id:flush1"));
+  });
+
+  test("Durable deletions are recorded in the store", async () => {
+    const cs = await GetCacheStore();
+    setCacheConfig({ durableDeletion: { interval: 50 } });
+    // redis rejects HSET with a trailing empty timeout argument
+    const hset = jest.spyOn((cs as any).getConnection(), "hset");
+    const testClazz = new TestClass();
+    await testClazz.evictDurable("d1");
+    assert.equal(hset.mock.calls.length, 1);
+    assert.equal(hset.mock.calls[0].length, 3);
+    assert.equal(hset.mock.calls[0][0], `${cs.options.keyPrefix || ""}${queueKey}`);
+    await cs.set("durable:id:d1", "concurrent");
+    await wait();
+    const records = await cs.hgetall(queueKey);
+    assert.equal(Object.keys(records).length, 1);
+    assert.equal(JSON.parse(Object.values<string>(records)[0]).rawKey, "durable:id:d1");
+
+    await wait(250);
+    assert.equal(await cs.get("durable:id:d1"), null);
+    assert.equal(Object.keys((await cs.hgetall(queueKey)) || {}).length, 0);
+  });
+
+  test("Completed by another worker after a restart", async () => {
+    const cs = await GetCacheStore();
+    setCacheConfig({ durableDeletion: { interval: 50 } });
+    const testClazz = new TestClass();
+    await testClazz.evictDurable("d2");
+    // 模拟进程退出，延迟删除仍保存在存储中
+    stopDeletionWorker();
+    await cs.set("durable:id:d2", "concurrent");
+    await wait(200);
+    assert.equal(await cs.get("durable:id:d2"), "concurrent");
+
+    startDeletionWorker(["default"]);
+    await wait(150);
+    assert.equal(await cs.get("durable:id:d2"), null);
+  });
+
+  test("Failed deletions are retried", async () => {
+    const cs = await GetCacheStore();
+    setCacheConfig({ durableDeletion: { interval: 60000, retries: 1 } });
+    const testClazz = new TestClass();
+    await testClazz.evictDurable("d3");
+    await wait(150);
+    const del = jest.spyOn(cs, "del").mockRejectedValue(Error("del failed"));
+    const hset = jest.spyOn((cs as any).getConnection(), "hset");
+    await processDeletions();
+    assert.equal(hset.mock.calls.length, 1);
+    assert.equal(hset.mock.calls[0].length, 3);
+    const records = await cs.hgetall(queueKey);
+    assert.equal(Object.keys(records).length, 1);
+    const [id] = Object.keys(records);
+    const record = JSON.parse(records[id]);
+    assert.equal(record.attempts, 1);
+    assert.ok(record.due > Date.now());
+
+    // 重试次数用完后放弃
+    await cs.hset(queueKey, id, JSON.stringify({ ...record, due: 0 }));
+    await processDeletions();
+    assert.equal(Object.keys((await cs.hgetall(queueKey)) || {}).length, 0);
+
+    del.mockRestore();
+    await cs.hset(queueKey, id, JSON.stringify({ ...record, attempts: 0, due: 0 }));
+    await cs.set("durable:id:d3", "concurrent");
+    await processDeletions();
+    assert.equal(await cs.get("durable:id:d3"), null);
+  });
+});
+
+describe("Cache HTTP Response", () => {
+  const wait = (ms = 20) => new Promise(resolve => setTimeout(resolve, ms));
+  let calls = 0;
+
+  const createServer = (opt?: HttpCacheOpt) => {
+    const app = new Koa();
+    app.use(<any>CacheResponse(opt));
+    app.use(async (ctx) => {
+      calls++;
+      if (ctx.path === "/text") {
+        ctx.set("x-custom", "custom");
+        ctx.body = `text ${calls}`;
+      } else if (ctx.path === "/login") {
+        ctx.cookies.set("sid", "1");
+        ctx.body = { calls };
+      } else if (ctx.path === "/missing") {
+        ctx.status = 404;
+        ctx.body = { calls };
+      } else if (ctx.path === "/me") {
+        ctx.body = { calls, user: ctx.get("authorization") || ctx.get("cookie") };
+      } else {
+        ctx.body = { calls, lang: ctx.get("accept-language"), query: ctx.query };
+      }
+    });
+    return app.callback();
+  };
+
+  beforeAll(async () => {
+    await GetCacheStore({
+      type: "memory",
+      db: 0,
+      timeout: 30
+    });
+  });
+
+  afterAll(async () => {
+    await CloseCacheStore();
+  });
+
+  beforeEach(() => {
+    calls = 0;
+  });
+
+  test("Cache status, headers and body", async () => {
+    const server = createServer({ cacheName: "httpText" });
+    const first = await request(server).get("/text");
+    await wait();
+    const second = await request(server).get("/text");
+    assert.equal(calls, 1);
+    assert.equal(second.status, 200);
+    assert.equal(second.text, "text 1");
+    assert.equal(second.headers["x-custom"], "custom");
+    assert.equal(second.headers["content-type"], first.headers["content-type"]);
+    assert.equal(second.headers.etag, first.headers.etag);
+
+    const json = await request(server).get("/json");
+    await wait();
+    assert.deepEqual((await request(server).get("/json")).body, json.body);
+    assert.equal(calls, 2);
+  });
+
+  test("Key by query params and vary headers", async () => {
+    const server = createServer({ cacheName: "httpQuery", query: ["page"], vary: ["accept-language"] });
+    await request(server).get("/json?page=1&t=1").set("accept-language", "en");
+    await wait();
+    const res = await request(server).get("/json?t=2&page=1").set("accept-language", "en");
+    assert.equal(calls, 1);
+    assert.deepEqual(res.body.query, { page: "1", t: "1" });
+
+    await request(server).get("/json?page=2").set("accept-language", "en");
+    await request(server).get("/json?page=1").set("accept-language", "zh");
+    assert.equal(calls, 3);
+  });
+
+  test("If-None-Match", async () => {
+    const server = createServer({ cacheName: "httpEtag" });
+    const first = await request(server).get("/text");
+    assert.ok(first.headers.etag);
+    await wait();
+    const cached = await request(server).get("/text").set("if-none-match", first.headers.etag);
+    assert.equal(cached.status, 304);
+    assert.equal(cached.text, "");
+    const stale = await request(server).get("/text").set("if-none-match", "\"other\"");
+    assert.equal(stale.status, 200);
+    assert.equal(stale.text, "text 1");
+    assert.equal(calls, 1);
+
+    // 未命中时同样比较新生成的 ETag
+    calls = 0;
+    const fresh = await request(createServer({ cacheName: "httpEtag2" })).get("/text")
+      .set("if-none-match", first.headers.etag);
+    assert.equal(fresh.status, 304);
+    assert.equal(calls, 1);
+  });
+
+  test("Bypass and uncacheable responses", async () => {
+    const server = createServer({ cacheName: "httpBypass" });
+    await request(server).get("/text");
+    await wait();
+    const res = await request(server).get("/text").set("cache-control", "no-cache");
+    assert.equal(res.text, "text 2");
+    await request(server).post("/text");
+    assert.equal(calls, 3);
+
+    await request(server).get("/login");
+    await request(server).get("/missing");
+    await wait();
+    await request(server).get("/login");
+    await request(server).get("/missing");
+    assert.equal(calls, 7);
+  });
+
+  test("Requests with credentials", async () => {
+    const server = createServer({ cacheName: "httpAuth" });
+    await request(server).get("/me").set("authorization", "Bearer alice");
+    await wait();
+    const bob = await request(server).get("/me").set("authorization", "Bearer bob");
+    assert.equal(bob.body.user, "Bearer bob");
+    await request(server).get("/me").set("cookie", "sid=alice");
+    await wait();
+    assert.equal((await request(server).get("/me").set("cookie", "sid=bob")).body.user, "sid=bob");
+    assert.equal(calls, 4);
+    // 未携带凭据的请求不会读到用户的响应
+    assert.equal((await request(server).get("/me")).body.calls, 5);
+
+    // 在 vary 中声明后按用户区分缓存
+    calls = 0;
+    const varied = createServer({ cacheName: "httpAuthVary", vary: ["authorization"] });
+    await request(varied).get("/me").set("authorization", "Bearer alice");
+    await wait();
+    assert.equal((await request(varied).get("/me").set("authorization", "Bearer alice")).body.calls, 1);
+    assert.equal((await request(varied).get("/me").set("authorization", "Bearer bob")).body.user, "Bearer bob");
+    assert.equal(calls, 2);
+
+    // 显式允许时共享缓存
+    calls = 0;
+    const shared = createServer({ cacheName: "httpAuthShared", credentials: true });
+    await request(shared).get("/me").set("authorization", "Bearer alice");
+    await wait();
+    assert.equal((await request(shared).get("/me").set("authorization", "Bearer bob")).body.user, "Bearer alice");
+    assert.equal(calls, 1);
+  });
+});
+
+describe("Cache Timeout", () => {
+  const wait = (ms = 20) => new Promise(resolve => setTimeout(resolve, ms));
+
+  beforeAll(async () => {
+    await GetCacheStore({
+      type: "memory",
+      db: 0,
+      timeout: 30
+    });
+  });
+
+  afterAll(async () => {
+    await CloseCacheStore();
+  });
+
+  test("Timeout by result", async () => {
+    const cs = await GetCacheStore();
+    const testClazz = new TestClass();
+    await testClazz.getOrder("o1", "finished");
+    await testClazz.getOrder("o2", "pending");
+    await wait();
+    assert.ok(await cs.ttl("order:id:o1") > 3000);
+    assert.ok(await cs.ttl("order:id:o2") <= 5);
+  });
+
+  test("No expiry", async () => {
+    const cs = await GetCacheStore();
+    const testClazz = new TestClass();
+    setCacheConfig({ indexedNames: ["forever"] });
+    await testClazz.getForever("f1");
+    await wait();
+    setCacheConfig({ indexedNames: undefined });
+    assert.equal(await cs.ttl("forever:id:f1"), -1);
+    assert.equal(decodeEnvelope(await cs.get("forever:id:f1")).e, Number.MAX_SAFE_INTEGER);
+    assert.equal(await cs.ttl("koatty_cacheable:name:forever"), -1);
+    assert.deepEqual((await testClazz.getForever("f1")), { id: "f1" });
+  });
+
+  test("Invalid timeout", async () => {
+    const cs = await GetCacheStore();
+    const manager = new CacheManager();
+    const errors: CacheEvent[] = [];
+    const listener = (e: CacheEvent) => errors.push(e);
+    CacheEvents.on("error", listener);
+    assert.equal(await manager.set("invalidTimeout", { id: 1 }, 1, { timeout: () => -1 }), false);
+    assert.equal(await manager.set("invalidTimeout", { id: 2 }, 2, { timeout: () => NaN, ttlJitter: 10 }), false);
+    assert.equal(await manager.set("invalidTimeout", { id: 3 }, 3, { timeout: (): number => undefined }), false);
+    assert.equal(await manager.set("invalidTimeout", { id: 4 }, 4, { timeout: Infinity }), false);
+    CacheEvents.off("error", listener);
+    assert.deepEqual(errors.map(e => e.key), [1, 2, 3, 4].map(id => `invalidTimeout:id:${id}`));
+    assert.equal(await cs.get("invalidTimeout:id:1"), null);
+
+    assert.equal(await manager.set("invalidTimeout", { id: 5 }, 5, { timeout: 0 }), true);
+    assert.equal(await cs.ttl("invalidTimeout:id:5"), -1);
+  });
+
+  test("Jittered timeout", async () => {
+    const cs = await GetCacheStore();
+    const testClazz = new TestClass();
+    const ids = Array.from({ length: 10 }, (_, i) => `j${i}`);
+    setCacheConfig({ indexedNames: ["jitter"] });
+    for (const id of ids) {
+      await testClazz.getJitter(id);
+      await wait(5);
+    }
+    await wait();
+    setCacheConfig({ indexedNames: undefined });
+    const ttls = await Promise.all(ids.map(id => cs.ttl(`jitter:id:${id}`)));
+    ttls.forEach(ttl => assert.ok(ttl >= 99 && ttl <= 150, `ttl ${ttl}`));
+    assert.ok(new Set(ttls).size > 1);
+    assert.ok(await cs.ttl("koatty_cacheable:name:jitter") >= Math.max(...ttls) - 1);
+  });
+});
+
+describe("Cache Scope", () => {
+  const wait = (ms = 20) => new Promise(resolve => setTimeout(resolve, ms));
+
+  beforeAll(async () => {
+    await GetCacheStore({
+      type: "memory",
+      db: 0,
+      timeout: 30
+    });
+  });
+
+  afterAll(async () => {
+    await CloseCacheStore();
+  });
+
+  test("Entries by scope", async () => {
+    const cs = await GetCacheStore();
+    const testClazz = new TestClass();
+    const a1 = await RunWithCacheContext({ tenantId: "a" }, () => testClazz.getTenantConfig("theme"));
+    const b1 = await RunWithCacheContext({ tenantId: "b" }, () => testClazz.getTenantConfig("theme"));
+    await wait();
+    assert.notEqual(a1.count, b1.count);
+    assert.ok(await cs.get("tenantConfig:@a:name:theme"));
+    assert.ok(await cs.get("tenantConfig:@b:name:theme"));
+    const a2 = await RunWithCacheContext({ tenantId: "a" }, () => testClazz.getTenantConfig("theme"));
+    assert.equal(a2.count, a1.count);
+  });
+
+  test("Bypass without scope", async () => {
+    const testClazz = new TestClass();
+    await testClazz.getTenantConfig("lang");
+    await testClazz.getTenantConfig("lang");
+    assert.equal(testClazz.tenantCount, 2);
+    await RunWithCacheContext({}, () => testClazz.getTenantConfig("lang"));
+    assert.equal(testClazz.tenantCount, 3);
+  });
+
+  test("Evict and put in every scope without scope", async () => {
+    const cs = await GetCacheStore();
+    const testClazz = new TestClass();
+    const fill = async () => {
+      for (const tenantId of ["f", "g"]) {
+        for (const name of ["color", "font"]) {
+          await RunWithCacheContext({ tenantId }, () => testClazz.getTenantConfig(name));
+        }
+      }
+      await wait();
+    };
+    await fill();
+    await testClazz.evictTenantConfigByName("color");
+    await wait();
+    assert.equal(await cs.get("tenantConfig:@f:name:color"), null);
+    assert.equal(await cs.get("tenantConfig:@g:name:color"), null);
+    assert.ok(await cs.get("tenantConfig:@f:name:font"));
+
+    // 无法确定写入的作用域时，清除所有作用域的缓存
+    await testClazz.putTenantConfig("font");
+    await wait();
+    assert.equal(await cs.get("tenantConfig:@f:name:font"), null);
+    assert.equal(await cs.get("tenantConfig:@g:name:font"), null);
+    assert.equal(await cs.get("tenantConfig:name:font"), null);
+
+    await fill();
+    await testClazz.evictTenantConfig();
+    await wait();
+    assert.equal(await cs.get("tenantConfig:@f:name:color"), null);
+    assert.equal(await cs.get("tenantConfig:@g:name:font"), null);
+  });
+
+  test("Scope from the Koatty ctx", async () => {
+    const { AsyncLocalStorage } = await import("async_hooks");
+    const app: any = new EventEmitter();
+    app.ctxStorage = new AsyncLocalStorage();
+    await KoattyCached({ type: "memory" }, app);
+    const testClazz = new TestClass();
+    await app.ctxStorage.run({ tenantId: "c" }, () => testClazz.getTenantConfig("menu"));
+    await wait();
+    const cs = await GetCacheStore();
+    assert.ok(await cs.get("tenantConfig:@c:name:menu"));
+  });
+
+  test("Evict the entries of the scope", async () => {
+    const cs = await GetCacheStore();
+    const testClazz = new TestClass();
+    await RunWithCacheContext({ tenantId: "d" }, () => testClazz.getTenantConfig("x"));
+    await RunWithCacheContext({ tenantId: "e" }, () => testClazz.getTenantConfig("x"));
+    await wait();
+    await RunWithCacheContext({ tenantId: "d" }, () => testClazz.evictTenantConfig());
+    await wait();
+    assert.equal(await cs.get("tenantConfig:@d:name:x"), null);
+    assert.ok(await cs.get("tenantConfig:@e:name:x"));
+
+    const manager = new CacheManager();
+    await manager.set("settings", { id: 1 }, { id: 1 }, { scope: "e" });
+    assert.equal(await manager.getKey("settings", { id: 1 }, { scope: "e" }), "settings:@e:id:1");
+    await EvictCacheScope("e");
+    assert.equal(await cs.get("tenantConfig:@e:name:x"), null);
+    assert.equal(await manager.get("settings", { id: 1 }, { scope: "e" }), undefined);
+  });
+});
+
+describe("Cache Admin", () => {
+  const wait = (ms = 20) => new Promise(resolve => setTimeout(resolve, ms));
+
+  const createServer = (auth?: (ctx: any) => boolean) => {
+    const app = new Koa();
+    app.use(<any>CacheAdmin({ auth }));
+    app.use(async (ctx) => {
+      ctx.body = "next";
+    });
+    return app.callback();
+  };
+  const server = createServer(ctx => ctx.get("x-token") === "secret");
+
+  beforeAll(async () => {
+    await GetCacheStore({
+      type: "memory",
+      db: 0,
+      timeout: 30
+    });
+  });
+
+  afterAll(async () => {
+    await CloseCacheStore();
+  });
+
+  test("Guarded by auth", async () => {
+    assert.equal((await request(createServer()).get("/_cache/names").set("x-token", "secret")).status, 403);
+    assert.equal((await request(server).get("/_cache/names")).status, 403);
+    assert.equal((await request(server).get("/other")).text, "next");
+  });
+
+  test("List cacheNames", async () => {
+    const res = await request(server).get("/_cache/names").set("x-token", "secret");
+    assert.equal(res.status, 200);
+    const item = res.body.find((i: any) => i.cacheName === "versioned");
+    assert.deepEqual(item, {
+      cacheName: "versioned", className: "TestClass", methodName: "getVersioned", params: ["id"], version: 2,
+      timeout: 300,
+    });
+    assert.equal(res.body.find((i: any) => i.cacheName === "order").timeout, "function");
+  });
+
+  test("Inspect and purge an entry", async () => {
+    const testClazz = new TestClass();
+    await testClazz.getVersioned("a1");
+    await wait();
+    const res = await request(server).get("/_cache/entry")
+      .query({ cacheName: "versioned", params: JSON.stringify({ id: "a1" }) }).set("x-token", "secret");
+    assert.equal(res.body.key, "versioned:v2:id:a1");
+    assert.equal(res.body.exists, true);
+    assert.deepEqual(res.body.value, { id: "a1", count: testClazz.versionCount });
+    assert.ok(res.body.ttl > 290 && res.body.ttl <= 300);
+    assert.ok(res.body.size > 0);
+
+    const byKey = await request(server).get("/_cache/entry").query({ key: "versioned:v2:id:a1" })
+      .set("x-token", "secret");
+    assert.deepEqual(byKey.body.value, res.body.value);
+
+    const del = await request(server).delete("/_cache/entry").query({ key: "versioned:v2:id:a1" })
+      .set("x-token", "secret");
+    assert.equal(del.body.deleted, true);
+    const missing = await request(server).get("/_cache/entry").query({ key: "versioned:v2:id:a1" })
+      .set("x-token", "secret");
+    assert.equal(missing.body.exists, false);
+
+    assert.equal((await request(server).get("/_cache/entry").set("x-token", "secret")).status, 400);
+    assert.equal((await request(server).get("/_cache/entry").query({ cacheName: "versioned", params: "{" })
+      .set("x-token", "secret")).status, 400);
+  });
+
+  test("Purge by cacheName and tag", async () => {
+    const cs = await GetCacheStore();
+    const manager = new CacheManager();
+    setCacheConfig({ indexedNames: ["adminName"] });
+    await manager.set("adminName", { id: 1 }, 1);
+    await manager.set("adminName", { id: 2 }, 2);
+    await manager.set("adminTag", { id: 1 }, 1, { tags: ["adminTag"] });
+    const byName = await request(server).delete("/_cache/names/adminName").set("x-token", "secret");
+    assert.equal(byName.body.deleted, 2);
+    assert.equal(await cs.get("adminName:id:1"), null);
+    setCacheConfig({ indexedNames: undefined });
+    const byTag = await request(server).delete("/_cache/tags/adminTag").set("x-token", "secret");
+    assert.equal(byTag.body.deleted, 1);
+    assert.equal(await cs.get("adminTag:id:1"), null);
+    assert.equal((await request(server).post("/_cache/names").set("x-token", "secret")).status, 404);
+
+    // 未维护索引的缓存名称递增代数
+    await manager.set("adminPlain", { id: 1 }, 1);
+    const byGeneration = await request(server).delete("/_cache/names/adminPlain").set("x-token", "secret");
+    assert.equal(byGeneration.status, 200);
+    assert.equal(byGeneration.body.generation, 1);
+    assert.equal(await manager.get("adminPlain", { id: 1 }), undefined);
+  });
+});
+
+describe("Cache Method Kinds", () => {
+  const wait = (ms = 20) => new Promise(resolve => setTimeout(resolve, ms));
+  const collect = async (items: AsyncIterable<any>) => {
+    const list: any[] = [];
+    for await (const item of items) {
+      list.push(item);
+    }
+    return list;
+  };
+
+  beforeAll(async () => {
+    await GetCacheStore({
+      type: "memory",
+      db: 0,
+      timeout: 30
+    });
+  });
+
+  afterAll(async () => {
+    await CloseCacheStore();
+  });
+
+  test("Sync methods fail at decoration", () => {
+    assert.throws(() => {
+      class SyncComponent {
+        @CacheAble("sync")
+        getValue() {
+          return 1;
+        }
+      }
+      return SyncComponent;
+    }, /only supports async methods, declare SyncComponent.getValue async/);
+    assert.throws(() => {
+      class SyncEvictComponent {
+        @CacheEvict("sync")
+        evictValue() {
+          return 1;
+        }
+      }
+      return SyncEvictComponent;
+    }, /CacheEvict only supports async methods/);
+
+    class PromiseComponent {
+      @CacheAble("promise")
+      getValue(): Promise<number> {
+        return Promise.resolve(1);
+      }
+    }
+    assert.ok(PromiseComponent);
+  });
+
+  test("Async generators need bufferIterable", () => {
+    assert.throws(() => {
+      class GeneratorComponent {
+        @CacheAble("generator")
+        async *getItems() {
+          yield 1;
+        }
+      }
+      return GeneratorComponent;
+    }, /set bufferIterable/);
+  });
+
+  test("Buffer the items of async generators", async () => {
+    const cs = await GetCacheStore();
+    const testClazz = new TestClass();
+    const first = await collect(testClazz.streamProducts("books"));
+    await wait();
+    assert.ok(await cs.get("productStream:category:books"));
+    const second = await collect(testClazz.streamProducts("books"));
+    assert.deepEqual(second, first);
+    assert.deepEqual(first, [{ category: "books", i: 0 }, { category: "books", i: 1 }]);
+    assert.equal(testClazz.streamCount, 1);
+
+    await testClazz.evictProductStream("books");
+    await wait();
+    await collect(testClazz.streamProducts("books"));
+    assert.equal(testClazz.streamCount, 2);
+
+    // above the limit of 3 items
+    assert.equal((await collect(testClazz.streamProducts("toys", 5))).length, 5);
+    await wait();
+    assert.equal(await cs.get("productStream:category:toys"), null);
+  });
+
+  test("Stop buffering above the limit", async () => {
+    const cs = await GetCacheStore();
+    let pulled = 0;
+    class EndlessComponent {
+      @CacheAble("endless", { bufferIterable: 3 })
+      async *getItems() {
+        for (; ;) {
+          yield ++pulled;
+        }
+      }
+
+      @CacheAble("shared", { bufferIterable: 3, singleFlight: true })
+      async *getShared(count: number) {
+        for (let i = 0; i < count; i++) {
+          yield i;
+        }
+      }
+    }
+    const component = new EndlessComponent();
+    const items: number[] = [];
+    for await (const item of component.getItems()) {
+      items.push(item);
+      if (items.length === 10) {
+        break;
+      }
+    }
+    assert.deepEqual(items, [1, 2, 3, 4, 5, 6, 7, 8, 9, 10]);
+    assert.equal(pulled, 10);
+    await wait();
+    assert.equal(await cs.get("endless"), null);
+
+    // 合并的并发调用各自读取完整的结果
+    const [a, b] = await Promise.all([collect(component.getShared(5)), collect(component.getShared(5))]);
+    assert.deepEqual(a, [0, 1, 2, 3, 4]);
+    assert.deepEqual(b, [0, 1, 2, 3, 4]);
+  });
+
+  test("Streams are not cached", async () => {
+    const cs = await GetCacheStore();
+    const testClazz = new TestClass();
+    const stream = await testClazz.openFile("a.txt");
+    assert.deepEqual(await collect(stream), ["a", "b"]);
+    await wait();
+    assert.equal(await cs.get("fileStream:name:a.txt"), null);
+    await testClazz.openFile("a.txt");
+    assert.equal(testClazz.streamCount, 2);
+  });
+});
+
+describe("Cache Key Params", () => {
+  const wait = (ms = 20) => new Promise(resolve => setTimeout(resolve, ms));
+
+  beforeAll(async () => {
+    await GetCacheStore({
+      type: "memory",
+      db: 0,
+      timeout: 30
+    });
+  });
+
+  afterAll(async () => {
+    await CloseCacheStore();
+  });
+
+  test("Params by index", async () => {
+    const cs = await GetCacheStore();
+    const testClazz = new TestClass();
+    await testClazz.getIndexed("t1", { id: 5 });
+    await wait();
+    assert.ok(await cs.get("indexed:0:t1:1.id:5"));
+  });
+
+  test("Params decorated with CacheKey", async () => {
+    const cs = await GetCacheStore();
+    const testClazz = new TestClass();
+    await testClazz.getKeyed("u1", { page: 2, size: 10 });
+    await wait();
+    assert.ok(await cs.get("keyed:id:u1:query.page:2"));
+    await testClazz.getKeyed("u1", { page: 2, size: 20 });
+    assert.equal(testClazz.keyedCount, 1);
+    assert.deepEqual(GetCacheRegistry().find(i => i.cacheName === "keyed").params, ["id", "query.page"]);
+
+    await testClazz.evictKeyed("u1");
+    await wait();
+    assert.equal(await cs.get("keyed:id:u1:query.page:2"), null);
+  });
+
+  test("Unresolved params fail at decoration", () => {
+    assert.throws(() => {
+      class InvalidParamComponent {
+        @CacheAble("invalid", { params: ["nonExistentParam"] })
+        async getValue(realParam: string) {
+          return realParam;
+        }
+      }
+      return InvalidParamComponent;
+    }, /Parameter\(s\) \[nonExistentParam\] not found in method getValue/);
+    assert.throws(() => {
+      class InvalidIndexComponent {
+        @CacheEvict("invalid", { params: [2] })
+        async evictValue(realParam: string) {
+          return realParam;
+        }
+      }
+      return InvalidIndexComponent;
+    }, /Parameter\(s\) \[2\] not found/);
+
+    class KeyComponent {
+      @CacheAble("valid")
+      async getValue(@CacheKey() id: string) {
+        return id;
+      }
+    }
+    assert.ok(KeyComponent);
+  });
+
+  test("Destructured parameters", async () => {
+    assert.throws(() => {
+      class DestructuredComponent {
+        @CacheAble("destructured", { params: ["name"] })
+        async getValue({ id }: { id: number }, name: string) {
+          return `${id}-${name}`;
+        }
+      }
+      return DestructuredComponent;
+    }, /Parameter\(s\) \[name\] cannot be resolved by name in method getValue/);
+
+    class IndexedComponent {
+      @CacheAble("destructuredIndexed", { params: ["0.id", 1] })
+      async getValue({ id }: { id: number }, name: string) {
+        return `${id}-${name}`;
+      }
+    }
+    const component = new IndexedComponent();
+    assert.equal(await component.getValue({ id: 1 }, "a"), "1-a");
+    await wait();
+    assert.equal(await component.getValue({ id: 1 }, "b"), "1-b");
+  });
+
+  test("Default values with commas", async () => {
+    let count = 0;
+    class DefaultComponent {
+      @CacheAble("defaults", { params: ["name"] })
+      async getValue(opts: Record<string, number> = { a: 1, b: 2 }, name: string = "x") {
+        count++;
+        return `${Object.keys(opts).length}-${name}`;
+      }
+    }
+    const cs = await GetCacheStore();
+    const component = new DefaultComponent();
+    assert.equal(await component.getValue(undefined, "a"), "2-a");
+    await wait();
+    assert.ok(await cs.get("defaults:name:a"));
+    assert.equal(await component.getValue({}, "b"), "0-b");
+    assert.equal(count, 2);
+  });
+});
+
+describe("Cache Consistency", () => {
+  const wait = (ms = 20) => new Promise(resolve => setTimeout(resolve, ms));
+
+  // a slow read gets the old value, the update and its eviction complete, then the read returns
+  const race = async (id: string,
+    update: (testClazz: TestClass) => Promise<any> = testClazz => testClazz.updateConsistent(id, "v2"),
+    get: (testClazz: TestClass, gate?: any) => Promise<any> = (testClazz, gate) => testClazz.getConsistent(id, gate)) => {
+    const testClazz = new TestClass();
+    let reached: () => void;
+    let open: () => void;
+    const readDone = new Promise<void>(resolve => { reached = resolve; });
+    const opened = new Promise<void>(resolve => { open = resolve; });
+    const read = get(testClazz, { reached, open: opened });
+    await readDone;
+    await update(testClazz);
+    await wait();
+    open();
+    assert.equal((await read).value, "v1");
+    await wait();
+    return (await get(testClazz)).value;
+  };
+
+  beforeAll(async () => {
+    await GetCacheStore({
+      type: "memory",
+      db: 0,
+      timeout: 30
+    });
+  });
+
+  afterAll(async () => {
+    setCacheConfig({ consistency: false });
+    await CloseCacheStore();
+  });
+
+  test("Stale backfill without the consistency mode", async () => {
+    assert.equal(await race("1"), "v1");
+  });
+
+  test("No stale backfill in the consistency mode", async () => {
+    setCacheConfig({ consistency: { ttl: 30 } });
+    const cs = await GetCacheStore();
+    assert.equal(await race("2"), "v2");
+    assert.equal(await cs.get("koatty_cacheable:ver:key:consistent:id:2"), "1");
+    assert.ok(await cs.ttl("koatty_cacheable:ver:key:consistent:id:2") <= 30);
+    // later reads are cached again
+    const testClazz = new TestClass();
+    testClazz.consistencyDb = "v3";
+    await wait();
+    assert.equal((await testClazz.getConsistent("2")).value, "v2");
+  });
+
+  test("Eviction between the check and the write", async () => {
+    setCacheConfig({ consistency: true });
+    const cs = await GetCacheStore();
+    const testClazz = new TestClass();
+    const set = cs.set.bind(cs);
+    const spy = jest.spyOn(cs, "set").mockImplementationOnce(async (...args: any[]) => {
+      await testClazz.updateConsistent("3", "v4");
+      await wait();
+      return set(...args);
+    });
+    assert.equal((await testClazz.getConsistent("3")).value, "v1");
+    await wait();
+    spy.mockRestore();
+    assert.equal(await cs.get("consistent:id:3"), null);
+    assert.equal((await testClazz.getConsistent("3")).value, "v4");
+  });
+
+  test("No stale backfill by CacheAbleBatch", async () => {
+    setCacheConfig({ consistency: true });
+    assert.equal(await race("9", undefined,
+      (testClazz, gate) => testClazz.getConsistentBatch(["9"], gate).then(list => list[0])), "v2");
+  });
+
+  test("No stale backfill after CachePut and purges", async () => {
+    setCacheConfig({ consistency: true });
+    // CachePut 写入新值后，之前开始的读取不会覆盖
+    assert.equal(await race("4", testClazz => testClazz.putConsistent("4", "v2")), "v2");
+
+    // 按租户清除
+    const inTenant = (fn: () => Promise<any>) => RunWithCacheContext({ tenantId: "t" }, fn);
+    assert.equal(await inTenant(() => race("5", async (testClazz) => {
+      testClazz.consistencyDb = "v2";
+      await EvictCacheScope("t");
+    }, (testClazz, gate) => testClazz.getScopedConsistent("5", gate))), "v2");
+
+    // 管理接口清除
+    const app = new Koa();
+    app.use(<any>CacheAdmin({ auth: () => true }));
+    const server = app.callback();
+    assert.equal(await race("6", async (testClazz) => {
+      testClazz.consistencyDb = "v2";
+      await request(server).delete("/_cache/entry").query({ cacheName: "consistent", params: "{\"id\":\"6\"}" });
+    }), "v2");
+    assert.equal(await race("7", async (testClazz) => {
+      testClazz.consistencyDb = "v2";
+      await request(server).delete("/_cache/names/consistent");
+    }), "v2");
+    assert.equal(await race("8", async (testClazz) => {
+      testClazz.consistencyDb = "v2";
+      await request(server).delete("/_cache/tags/@scope:t");
+    }, (testClazz, gate) => inTenant(() => testClazz.getScopedConsistent("8", gate))), "v2");
+  });
+});
@@ -0,0 +1,131 @@
+/*
+ * @Description: 
+ * @Usage: 
+ * @Author: richen
+ * @Date: 2024-11-07 13:52:34
+ * @LastEditTime: 2024-11-07 15:37:23
+ * @License: BSD (3-Clause)
+ * @Copyright (c): <richenlin(at)gmail.com>
+ */
+
+import assert from "assert";
+import { EventEmitter } from "events";
+import { GetCacheStore, CloseCacheStore } from "../src/store";
+import { DefaultSerializer, JsonSerializer, KoattyCached, Serializer } from "../src/index";
+import { TestClass } from "./test";
+
+describe("DefaultSerializer", () => {
+  const roundTrip = (value: any) => DefaultSerializer.deserialize(DefaultSerializer.serialize(value));
+
+  test("Primitives keep their type", () => {
+    assert.strictEqual(roundTrip(42), 42);
+    assert.strictEqual(roundTrip("123"), "123");
+    assert.strictEqual(roundTrip(""), "");
+    assert.strictEqual(roundTrip(false), false);
+    assert.strictEqual(roundTrip(null), null);
+    assert.strictEqual(roundTrip(undefined), undefined);
+    assert.ok(Number.isNaN(roundTrip(NaN)));
+    assert.strictEqual(roundTrip(-Infinity), -Infinity);
+    assert.strictEqual(roundTrip(12345678901234567890n), 12345678901234567890n);
+  });
+
+  test("Builtin objects round-trip", () => {
+    const date = new Date("2024-11-07T16:00:02.000Z");
+    assert.deepStrictEqual(roundTrip(date), date);
+    assert.ok(Number.isNaN(roundTrip(new Date("invalid")).getTime()));
+    assert.deepStrictEqual(roundTrip(Buffer.from([0, 1, 255])), Buffer.from([0, 1, 255]));
+    assert.deepStrictEqual(roundTrip(new Set([1, "1", date])), new Set([1, "1", date]));
+    assert.deepStrictEqual(roundTrip(new Map<any, any>([[1, { a: 1n }], ["k", [undefined]]])),
+      new Map<any, any>([[1, { a: 1n }], ["k", [undefined]]]));
+  });
+
+  test("Nested structures round-trip", () => {
+    const value = {
+      list: [1, undefined, { at: new Date(0) }],
+      empty: {},
+      missing: undefined as any,
+      // 与类型标记同名的字段需要转义
+      $t: "Date",
+      $v: "not a date",
+    };
+    assert.deepStrictEqual(roundTrip(value), value);
+    assert.ok(Object.prototype.hasOwnProperty.call(roundTrip(value), "missing"));
+  });
+
+  test("Reject incompatible or foreign data", () => {
+    assert.throws(() => DefaultSerializer.deserialize(JSON.stringify({ $kc: 999, d: 1 })), /Incompatible/);
+    assert.throws(() => DefaultSerializer.deserialize(JSON.stringify({ v: 1 })), /Invalid/);
+    assert.throws(() => DefaultSerializer.deserialize("123"), /Invalid/);
+    assert.throws(() => DefaultSerializer.deserialize(JSON.stringify({ $kc: 1, d: { $t: "Unknown" } })), /Unknown/);
+  });
+});
+
+describe("Cache Serializer", () => {
+  beforeAll(async () => {
+    await GetCacheStore({
+      type: "memory",
+      db: 0,
+      timeout: 30
+    });
+  });
+
+  afterAll(async () => {
+    await CloseCacheStore();
+  });
+
+  test("Cached value keeps its types", async () => {
+    const testClazz = new TestClass();
+    const res = await testClazz.runTyped("a");
+    await new Promise(resolve => setTimeout(resolve, 10));
+    const cached = await testClazz.runTyped("a");
+    assert.equal(testClazz.typedCount, 1);
+    assert.deepStrictEqual(cached, res);
+    assert.ok(cached.createdAt instanceof Date);
+    assert.equal(cached.attrs.get("views"), 10n);
+  });
+
+  test("Primitive results are served from cache", async () => {
+    const testClazz = new TestClass();
+    for (const value of [42, "123", 0, ""]) {
+      await testClazz.runPrimitive(value);
+      await new Promise(resolve => setTimeout(resolve, 10));
+      assert.deepStrictEqual(await testClazz.runPrimitive(value), value);
+    }
+    assert.equal(testClazz.typedCount, 4);
+  });
+
+  test("Per decorator serializer", async () => {
+    const cs = await GetCacheStore();
+    const testClazz = new TestClass();
+    await testClazz.runJson("a");
+    await new Promise(resolve => setTimeout(resolve, 10));
+    const cached = await testClazz.runJson("a");
+    assert.equal(testClazz.typedCount, 1);
+    // JSON 序列化不保留 Date 类型
+    assert.equal(cached.createdAt, "2024-11-07T16:00:02.000Z");
+    assert.equal(JSON.parse(await cs.get("json:id:a")).v.id, "a");
+  });
+
+  test("Global serializer from KoattyCached options", async () => {
+    const calls: string[] = [];
+    const serializer: Serializer = {
+      serialize(value: any) {
+        calls.push("serialize");
+        return JsonSerializer.serialize(value);
+      },
+      deserialize(data: string) {
+        calls.push("deserialize");
+        return JsonSerializer.deserialize(data);
+      }
+    };
+    const app = new EventEmitter();
+    await KoattyCached({ type: "memory", serializer }, app as any);
+    app.emit("appReady");
+
+    const testClazz = new TestClass();
+    await testClazz.runPrimitive("global");
+    await new Promise(resolve => setTimeout(resolve, 10));
+    await testClazz.runPrimitive("global");
+    assert.deepEqual(calls, ["serialize", "deserialize"]);
+  });
+});
@@ -1,4 +1,5 @@
-import { CacheAble, CacheEvict } from '../src/index';
+import { Readable } from "stream";
+import { CacheAble, CacheAbleBatch, CacheEvict, CacheKey, CachePut, CacheWarmup, JsonSerializer } from '../src/index';
 /*
  * @Description: 
  * @Usage: 
@@ -14,14 +15,14 @@ export class TestClass {
   @CacheAble("run", {
     params: ['name']
   })
-  run(name: string, age: number) {
+  async run(name: string, age: number) {
     return "123";
   }
 
   @CacheEvict("run", {
     params: ["name"]
   })
-  run2(name: string, age: number) {
+  async run2(name: string, age: number) {
     return "234";
   }
 
@@ -30,7 +31,7 @@ export class TestClass {
     delayedDoubleDeletion: true,
     delayTime: 2000
   })
-  runDelayed(id: string) {
+  async runDelayed(id: string) {
     return "delayed";
   }
 
@@ -46,19 +47,514 @@ export class TestClass {
   @CacheAble("edge", {
     params: ["key"]
   })
-  runEdgeCase(key: string) {
+  async runEdgeCase(key: string) {
     return `edge-${key}`;
   }
 
   @CacheAble("noparams")
-  runNoParams() {
+  async runNoParams() {
     return "no-params";
   }
 
-  @CacheAble("invalid", {
-    params: ["nonExistentParam"]
+  flightCount = 0;
+
+  @CacheAble("flight", {
+    params: ["id"],
+    singleFlight: true
+  })
+  async runSingleFlight(id: string) {
+    this.flightCount++;
+    await new Promise(resolve => setTimeout(resolve, 100));
+    return { id, name: `flight-${id}` };
+  }
+
+  @CacheAble("dflight", {
+    params: ["id"],
+    singleFlight: { distributed: true, lockTtl: 5, waitInterval: 20 }
+  })
+  async runDistributedFlight(id: string) {
+    this.flightCount++;
+    await new Promise(resolve => setTimeout(resolve, 50));
+    return { id, name: `dflight-${id}` };
+  }
+
+  staleCount = 0;
+
+  @CacheAble("stale", {
+    params: ["id"],
+    timeout: 1,
+    staleTtl: 5
+  })
+  async runStale(id: string) {
+    this.staleCount++;
+    return `${id}-${this.staleCount}`;
+  }
+
+  @CacheAble("ahead", {
+    params: ["id"],
+    timeout: 5,
+    refreshAhead: true
+  })
+  async runRefreshAhead(id: string) {
+    this.staleCount++;
+    await new Promise(resolve => setTimeout(resolve, 10));
+    return `${id}-${this.staleCount}`;
+  }
+
+  typedCount = 0;
+
+  @CacheAble("typed", {
+    params: ["id"]
+  })
+  async runTyped(id: string) {
+    this.typedCount++;
+    return {
+      id,
+      createdAt: new Date("2024-11-07T16:00:02.000Z"),
+      tags: new Set(["a", "b"]),
+      attrs: new Map<string, any>([["views", 10n]]),
+      avatar: Buffer.from("avatar"),
+      deletedAt: undefined as Date,
+    };
+  }
+
+  @CacheAble("primitive", {
+    params: ["value"]
+  })
+  async runPrimitive(value: any) {
+    this.typedCount++;
+    return value;
+  }
+
+  @CacheAble("json", {
+    params: ["id"],
+    serializer: JsonSerializer
+  })
+  async runJson(id: string) {
+    this.typedCount++;
+    return { id, createdAt: new Date("2024-11-07T16:00:02.000Z") };
+  }
+
+  nullCount = 0;
+
+  @CacheAble("nullable", {
+    params: ["id"],
+    cacheNull: true,
+    nullTimeout: 1
+  })
+  async runNullable(id: string) {
+    this.nullCount++;
+    const values: any = { empty: "", zero: 0, list: [], obj: {}, undef: undefined };
+    return id in values ? values[id] : null;
+  }
+
+  @CacheAble("nonull", {
+    params: ["id"]
+  })
+  async runNoNull(id: string): Promise<any> {
+    this.nullCount++;
+    return null;
+  }
+
+  searchCount = 0;
+
+  @CacheAble("productSearch", {
+    params: ["category", "keyword"],
+    tags: ["product", (args: any[]) => `category:${args[0]}`]
+  })
+  async searchProducts(category: string, keyword: string) {
+    this.searchCount++;
+    return [`${category}-${keyword}`];
+  }
+
+  @CacheEvict("productSearch", {
+    params: ["category"],
+    allEntries: true,
+    delayedDoubleDeletion: false
+  })
+  async updateCategory(category: string) {
+    return true;
+  }
+
+  @CacheEvict("productSearch", {
+    allEntries: true,
+    delayedDoubleDeletion: false
+  })
+  async clearSearch() {
+    return true;
+  }
+
+  @CacheEvict("product", {
+    params: ["id"],
+    tags: [(args: any[]) => `category:${args[1]}`],
+    delayedDoubleDeletion: false
+  })
+  async updateProduct(id: string, category: string) {
+    return true;
+  }
+
+  userCount = 0;
+
+  @CacheAble("user", {
+    params: ["id"]
+  })
+  async getUser(id: string) {
+    this.userCount++;
+    return { id, name: "from-db" };
+  }
+
+  @CachePut("user", {
+    params: ["id"],
+    pick: "data"
+  })
+  async updateUser(id: string, name: string) {
+    return { code: 0, data: { id, name } };
+  }
+
+  @CachePut("user", {
+    params: ["id"],
+    pick: (result: any, args: any[]) => ({ id: args[0], name: result })
+  })
+  async renameUser(id: string, name: string) {
+    return name;
+  }
+
+  orderCount = 0;
+
+  @CacheAble("orders", {
+    params: ["query.userId", "query.status"]
+  })
+  async getOrders(query: { userId: string; status?: string; page?: number }) {
+    this.orderCount++;
+    return [`${query.userId}-${query.status}`];
+  }
+
+  @CacheAble("orderSearch", {
+    params: ["query"]
+  })
+  async searchOrders(query: any) {
+    this.orderCount++;
+    return [query];
+  }
+
+  @CacheAble("orderCustom", {
+    keyGenerator: (cacheName: string, args: any[], target: any, methodName: string) =>
+      `${cacheName}:${methodName}:${args[0].userId}`
+  })
+  async getOrdersCustom(query: { userId: string }) {
+    this.orderCount++;
+    return [query.userId];
+  }
+
+  @CacheEvict("orderCustom", {
+    keyGenerator: (cacheName: string, args: any[]) => `${cacheName}:getOrdersCustom:${args[0]}`,
+    delayedDoubleDeletion: false
+  })
+  async evictOrdersCustom(userId: string) {
+    return true;
+  }
+
+  condCount = 0;
+
+  @CacheAble("cond", {
+    params: ["id"],
+    condition: (args: any[]) => !args[1],
+    unless: (result: any) => result.status === "pending"
+  })
+  async runConditional(id: string, forceRefresh?: boolean) {
+    this.condCount++;
+    return { id, status: id.startsWith("p") ? "pending" : "done", count: this.condCount };
+  }
+
+  @CacheEvict("cond", {
+    params: ["id"],
+    condition: (args: any[]) => args[0] !== "keep",
+    delayedDoubleDeletion: false
+  })
+  async evictConditional(id: string) {
+    return true;
+  }
+
+  @CacheEvict("cond", {
+    params: ["id"],
+    beforeInvocation: true,
+    delayedDoubleDeletion: false
+  })
+  async failedUpdate(id: string) {
+    throw Error("update failed");
+  }
+
+  @CacheEvict("cond", {
+    params: ["id"],
+    delayedDoubleDeletion: false
   })
-  runWithInvalidParam(realParam: string) {
-    return `invalid-${realParam}`;
+  async failedUpdateAfter(id: string) {
+    throw Error("update failed");
+  }
+
+  localCount = 0;
+
+  @CacheAble("profile", { params: ["id"] })
+  async getProfile(id: string) {
+    this.localCount++;
+    return { id, count: this.localCount };
+  }
+
+  @CacheAble("balance", { params: ["id"], local: false })
+  async getBalance(id: string) {
+    this.localCount++;
+    return { id, count: this.localCount };
+  }
+
+  @CacheEvict("profile", { params: ["id"], delayedDoubleDeletion: false })
+  async updateProfile(id: string) {
+    return true;
+  }
+
+  metricCount = 0;
+
+  @CacheAble("metric", { params: ["id"] })
+  async getMetric(id: string) {
+    this.metricCount++;
+    return { id };
+  }
+
+  @CacheEvict("metric", { params: ["id"], delayedDoubleDeletion: false })
+  async evictMetric(id: string) {
+    return true;
+  }
+
+  reportCount = 0;
+
+  @CacheAble("report", { params: ["id"], store: "reports" })
+  async getReport(id: string) {
+    this.reportCount++;
+    return { id, count: this.reportCount };
+  }
+
+  @CacheEvict("report", { params: ["id"], store: "reports", delayedDoubleDeletion: false })
+  async evictReport(id: string) {
+    return true;
+  }
+
+  @CacheAble("report", { params: ["id"], store: "missing" })
+  async getMissingStore(id: string) {
+    this.reportCount++;
+    return { id, count: this.reportCount };
+  }
+
+  slowCount = 0;
+
+  @CacheAble("slow", { params: ["id"] })
+  async getSlow(id: string) {
+    this.slowCount++;
+    return { id, count: this.slowCount };
+  }
+
+  @CachePut("slow", { params: ["id"] })
+  async putSlowFailed(id: string) {
+    throw Error(`update of ${id} failed`);
+  }
+
+  batchCalls: string[][] = [];
+
+  @CacheAbleBatch("batchUser", { param: "ids" })
+  async getUsersByIds(ids: string[]) {
+    this.batchCalls.push(ids);
+    return ids.filter(id => id !== "404").reverse().map(id => ({ id, name: `user${id}` }));
+  }
+
+  @CacheAble("batchUser", { params: ["id"] })
+  async getBatchUser(id: string) {
+    this.batchCalls.push([id]);
+    return { id, name: `user${id}` };
+  }
+
+  largeCount = 0;
+
+  @CacheAble("large", { params: ["size"], compress: { threshold: 100 } })
+  async getLarge(size: number) {
+    this.largeCount++;
+    return { data: "x".repeat(size) };
+  }
+
+  @CacheAble("largeBrotli", { params: ["size"], compress: "brotli" })
+  async getLargeBrotli(size: number) {
+    this.largeCount++;
+    return { data: "x".repeat(size) };
+  }
+
+  @CacheAble("tooLarge", { params: ["size"], maxSize: 200 })
+  async getTooLarge(size: number) {
+    this.largeCount++;
+    return { data: "y".repeat(size) };
+  }
+
+  @CachePut("large", { params: ["size"] })
+  async putLarge(size: number, data: string) {
+    return { data };
+  }
+
+  @CacheEvict("durable", { params: ["id"], delayTime: 100 })
+  async evictDurable(id: string) {
+    return true;
+  }
+
+  versionCount = 0;
+
+  @CacheAble("versioned", { params: ["id"], version: 2 })
+  async getVersioned(id: string) {
+    this.versionCount++;
+    return { id, count: this.versionCount };
+  }
+
+  @CacheEvict("versioned", { params: ["id"], version: 2, delayedDoubleDeletion: false })
+  async evictVersioned(id: string) {
+    return true;
+  }
+
+  @CacheAble("order", { params: ["id"], timeout: (result: any) => result.status === "finished" ? 3600 : 5 })
+  async getOrder(id: string, status: string) {
+    return { id, status };
+  }
+
+  @CacheAble("forever", { params: ["id"], timeout: 0 })
+  async getForever(id: string) {
+    return { id };
+  }
+
+  @CacheAble("jitter", { params: ["id"], timeout: 100, ttlJitter: "50%" })
+  async getJitter(id: string) {
+    return { id };
+  }
+
+  hotCount = 0;
+
+  @CacheWarmup([["h1"], ["h2"], ["h3"]])
+  @CacheAble("hot", { params: ["id"] })
+  async getHot(id: string) {
+    this.hotCount++;
+    return { id };
+  }
+
+  tenantCount = 0;
+
+  @CacheAble("tenantConfig", { params: ["name"], scope: (ctx: any) => ctx.tenantId })
+  async getTenantConfig(name: string) {
+    this.tenantCount++;
+    return { name, count: this.tenantCount };
+  }
+
+  @CacheEvict("tenantConfig", { allEntries: true, delayedDoubleDeletion: false, scope: (ctx: any) => ctx.tenantId })
+  async evictTenantConfig() {
+    return true;
+  }
+
+  @CacheEvict("tenantConfig", { params: ["name"], delayedDoubleDeletion: false, scope: (ctx: any) => ctx.tenantId })
+  async evictTenantConfigByName(name: string) {
+    return name;
+  }
+
+  @CachePut("tenantConfig", { params: ["name"], scope: (ctx: any) => ctx.tenantId })
+  async putTenantConfig(name: string) {
+    return { name, count: 0 };
+  }
+
+  streamCount = 0;
+
+  @CacheAble("productStream", { params: ["category"], bufferIterable: 3 })
+  async *streamProducts(category: string, count = 2) {
+    this.streamCount++;
+    for (let i = 0; i < count; i++) {
+      yield { category, i };
+    }
+  }
+
+  @CacheEvict("productStream", { params: ["category"], delayedDoubleDeletion: false })
+  async evictProductStream(category: string) {
+    return true;
+  }
+
+  @CacheAble("fileStream", { params: ["name"] })
+  async openFile(name: string) {
+    this.streamCount++;
+    return Readable.from(["a", "b"]);
+  }
+
+  @CacheAble("indexed", { params: [0, "1.id"] })
+  async getIndexed(tenant: string, { id }: { id: number }, ...rest: any[]) {
+    return { tenant, id };
+  }
+
+  keyedCount = 0;
+
+  @CacheAble("keyed")
+  async getKeyed(@CacheKey("id") id: string, @CacheKey("query.page") query: { page: number; size?: number }) {
+    this.keyedCount++;
+    return { id, page: query.page, count: this.keyedCount };
+  }
+
+  @CacheAble("mixedKeyed")
+  async getMixedKeyed(@CacheKey("id") id: string, @CacheKey() q: string) {
+    this.keyedCount++;
+    return { id, q, count: this.keyedCount };
+  }
+
+  @CacheEvict("keyed", { allEntries: true, delayedDoubleDeletion: false })
+  async evictKeyed(@CacheKey("id") id: string) {
+    return true;
+  }
+
+  consistencyDb = "v1";
+
+  // gate.reached is called after the value is read, the result is returned once gate.open resolves
+  @CacheAble("consistent", { params: ["id"] })
+  async getConsistent(id: string, gate?: { reached: () => void; open: Promise<void> }) {
+    const value = this.consistencyDb;
+    if (gate) {
+      gate.reached();
+      await gate.open;
+    }
+    return { id, value };
+  }
+
+  @CacheEvict("consistent", { params: ["id"], delayedDoubleDeletion: false })
+  async updateConsistent(id: string, value: string) {
+    this.consistencyDb = value;
+    return true;
+  }
+
+  @CachePut("consistent", { params: ["id"] })
+  async putConsistent(id: string, value: string) {
+    this.consistencyDb = value;
+    return { id, value };
+  }
+
+  @CacheAble("consistentScoped", { params: ["id"], scope: (ctx: any) => ctx.tenantId })
+  async getScopedConsistent(id: string, gate?: { reached: () => void; open: Promise<void> }) {
+    const value = this.consistencyDb;
+    if (gate) {
+      gate.reached();
+      await gate.open;
+    }
+    return { id, value };
+  }
+
+  // shares the entries of getConsistent
+  @CacheAbleBatch("consistent", { param: "ids" })
+  async getConsistentBatch(ids: string[], gate?: { reached: () => void; open: Promise<void> }) {
+    const value = this.consistencyDb;
+    if (gate) {
+      gate.reached();
+      await gate.open;
+    }
+    return ids.map(id => ({ id, value }));
+  }
+
+  @CacheWarmup(async () => [["c1"], ["c2"]])
+  @CacheAble("hotCategory", { params: ["id"], timeout: 60 })
+  async getHotCategory(id: string) {
+    this.hotCount++;
+    return { id };
   }
-}
\ No newline at end of file
+}